@@ -0,0 +1,97 @@
+import { App, Modal, ButtonComponent } from 'obsidian';
+import { BackupSummary } from './types';
+
+/**
+ * Lists backup snapshots, newest first, with actions to roll one back or delete it
+ */
+export class BackupRestoreModal extends Modal {
+    private backups: BackupSummary[];
+    private confirmRestore: boolean;
+    private onRestore: (id: string) => Promise<void>;
+    private onDelete: (id: string) => Promise<void>;
+    private confirmingId: string | null = null;
+
+    constructor(
+        app: App,
+        backups: BackupSummary[],
+        confirmRestore: boolean,
+        onRestore: (id: string) => Promise<void>,
+        onDelete: (id: string) => Promise<void>
+    ) {
+        super(app);
+        this.backups = backups;
+        this.confirmRestore = confirmRestore;
+        this.onRestore = onRestore;
+        this.onDelete = onDelete;
+    }
+
+    onOpen() {
+        this.contentEl.addClass('backup-restore-modal');
+        this.render();
+    }
+
+    private render() {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        contentEl.createEl('h2', { text: 'Restore Backup' });
+
+        if (this.backups.length === 0) {
+            contentEl.createEl('p', {
+                text: 'No backups yet. With "Backup Before Sync" on, one is taken before each sync that changes cards.',
+                cls: 'backup-restore-empty'
+            });
+        } else {
+            contentEl.createEl('p', {
+                text: 'Restoring puts back the cards a sync overwrote, removes the cards it created, and returns review history and sync state to how they were.',
+                cls: 'backup-restore-description'
+            });
+
+            const listEl = contentEl.createEl('div', { cls: 'backup-restore-list' });
+            this.backups.forEach(backup => this.createRow(listEl, backup));
+        }
+
+        const footerEl = contentEl.createEl('div', { cls: 'backup-restore-footer' });
+        new ButtonComponent(footerEl)
+            .setButtonText('Close')
+            .onClick(() => this.close());
+    }
+
+    private createRow(listEl: HTMLElement, backup: BackupSummary) {
+        const rowEl = listEl.createEl('div', { cls: 'backup-restore-row' });
+        const infoEl = rowEl.createEl('div', { cls: 'backup-restore-info' });
+        infoEl.createEl('div', { text: `${backup.reason} · ${new Date(backup.created).toLocaleString()}`, cls: 'backup-restore-label' });
+        infoEl.createEl('div', {
+            text: `${backup.changed} files overwritten · ${backup.added} files created`,
+            cls: 'backup-restore-meta'
+        });
+
+        const confirming = this.confirmingId === backup.id;
+        new ButtonComponent(rowEl)
+            .setButtonText(confirming ? 'Click Again to Restore' : 'Restore')
+            .setCta()
+            .onClick(async () => {
+                if (this.confirmRestore && !confirming) {
+                    this.confirmingId = backup.id;
+                    this.render();
+                    return;
+                }
+
+                this.close();
+                await this.onRestore(backup.id);
+            });
+
+        new ButtonComponent(rowEl)
+            .setButtonText('Delete')
+            .onClick(async () => {
+                await this.onDelete(backup.id);
+                this.backups = this.backups.filter(other => other.id !== backup.id);
+                this.render();
+            });
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
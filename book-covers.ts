@@ -0,0 +1,121 @@
+import { App, TFile, TFolder, normalizePath } from 'obsidian';
+import { ContentHash } from './content-hash';
+import { FlashcardGenerator } from './flashcard-generator';
+import { LibraryIndex } from './library-index';
+import { BookMetadata, KindleCardsSettings } from './types';
+
+/**
+ * Book covers from images already in the vault, so they work offline.
+ *
+ * A cover is found through a `cover` frontmatter field on the book's index note (a path,
+ * `[[link]]` or `![[embed]]`), or an image in the covers folder named after the book
+ * ("Title" or "Title - Author"). Books without one get a typographic placeholder.
+ */
+export class BookCovers {
+    static readonly IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'webp', 'avif', 'bmp', 'svg'];
+    static readonly COVER_FIELD = 'cover';
+
+    static getCoversFolder(settings: KindleCardsSettings): string {
+        return normalizePath(settings.coversFolder || `${settings.outputFolder}/Covers`);
+    }
+
+    /**
+     * Find the cover image of a book, or null when there is none
+     */
+    static resolve(app: App, book: Pick<BookMetadata, 'title' | 'author' | 'authors'>, settings: KindleCardsSettings): TFile | null {
+        const notePath = LibraryIndex.getBookNotePath(book, settings);
+        const note = app.vault.getAbstractFileByPath(notePath);
+        if (note instanceof TFile) {
+            const cover = this.resolveLink(app, app.metadataCache.getFileCache(note)?.frontmatter?.[this.COVER_FIELD], notePath);
+            if (cover) {
+                return cover;
+            }
+        }
+
+        const folder = app.vault.getAbstractFileByPath(this.getCoversFolder(settings));
+        if (!(folder instanceof TFolder)) {
+            return null;
+        }
+
+        const names = this.getCandidateNames(book);
+        const images = folder.children.filter((child): child is TFile => child instanceof TFile && this.isImage(child));
+        for (const name of names) {
+            const match = images.find(image => image.basename.toLowerCase() === name);
+            if (match) {
+                return match;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Render a book's cover, or its placeholder, into a new element
+     */
+    static render(app: App, parentEl: HTMLElement, book: Pick<BookMetadata, 'title' | 'author' | 'authors'>, settings: KindleCardsSettings): HTMLElement {
+        const coverEl = parentEl.createEl('div', { cls: 'book-cover' });
+        const file = this.resolve(app, book, settings);
+
+        if (!file) {
+            this.renderPlaceholder(coverEl, book);
+            return coverEl;
+        }
+
+        const imageEl = coverEl.createEl('img', {
+            attr: { src: app.vault.getResourcePath(file), alt: `Cover of ${book.title}` }
+        });
+        imageEl.onerror = () => {
+            coverEl.empty();
+            this.renderPlaceholder(coverEl, book);
+        };
+        return coverEl;
+    }
+
+    /**
+     * A title card in a colour derived from the title, so each book keeps its colour
+     */
+    private static renderPlaceholder(coverEl: HTMLElement, book: Pick<BookMetadata, 'title' | 'author' | 'authors'>) {
+        const hue = parseInt(ContentHash.digest(book.title).substring(0, 6), 16) % 360;
+        coverEl.addClass('book-cover-placeholder');
+        coverEl.style.setProperty('--book-cover-hue', String(hue));
+
+        coverEl.createEl('div', { text: book.title, cls: 'book-cover-title' });
+        const author = this.getAuthorName(book);
+        if (author) {
+            coverEl.createEl('div', { text: author, cls: 'book-cover-author' });
+        }
+    }
+
+    private static resolveLink(app: App, value: unknown, sourcePath: string): TFile | null {
+        if (typeof value !== 'string' || !value.trim()) {
+            return null;
+        }
+
+        const link = value.trim()
+            .replace(/^!?\[\[([^|\]]+)(?:\|[^\]]*)?\]\]$/, '$1')
+            .replace(/^!?\[[^\]]*\]\(<?([^)>]+)>?\)$/, '$1');
+
+        // Only images in the vault are used; nothing is fetched from the network
+        if (/^[a-z][a-z\d+.-]*:/i.test(link)) {
+            return null;
+        }
+
+        const file = app.metadataCache.getFirstLinkpathDest(link, sourcePath)
+            || app.vault.getAbstractFileByPath(normalizePath(link));
+        return file instanceof TFile && this.isImage(file) ? file : null;
+    }
+
+    private static getCandidateNames(book: Pick<BookMetadata, 'title' | 'author' | 'authors'>): string[] {
+        const title = FlashcardGenerator.sanitizeFileName(book.title).toLowerCase();
+        const author = this.getAuthorName(book);
+        return author ? [title, `${title} - ${FlashcardGenerator.sanitizeFileName(author).toLowerCase()}`] : [title];
+    }
+
+    private static getAuthorName(book: Pick<BookMetadata, 'author' | 'authors'>): string {
+        const author = book.authors && book.authors.length > 0 ? book.authors.join(', ') : (book.author || '');
+        return /^(unknown|unknown author|author unknown)?$/i.test(author.trim()) ? '' : author;
+    }
+
+    private static isImage(file: TFile): boolean {
+        return this.IMAGE_EXTENSIONS.includes(file.extension.toLowerCase());
+    }
+}
@@ -0,0 +1,253 @@
+import { App, TFile, normalizePath } from 'obsidian';
+import { FlashcardGenerator } from './flashcard-generator';
+import { KindleParser } from './kindle-parser';
+import { SyncEngine } from './sync-engine';
+import { BookMetadata, BookmarkRecord, KindleClipping, KindleCardsSettings } from './types';
+import { VaultFolders } from './vault-folders';
+import { DebugLogger } from './logger';
+
+/**
+ * Per-book summaries (authors, highlight dates, counts by type, location span) computed at sync.
+ *
+ * With `cacheBookData` the summaries are kept in plugin data, so the library index, book picker
+ * and statistics don't have to regroup every card. With `includeMetadataFiles` each book also gets
+ * a `<Book> - Metadata.json` sidecar next to its cards.
+ */
+export class BookMetadataStore {
+    private app: App;
+    private getSettings: () => KindleCardsSettings;
+
+    constructor(app: App, getSettings: () => KindleCardsSettings) {
+        this.app = app;
+        this.getSettings = getSettings;
+    }
+
+    /**
+     * Key identifying a book. Uses the normalised author names, so a synced clipping and the card
+     * read back from its frontmatter agree, and treats the spellings of an unknown author as one.
+     */
+    static getBookKey(clipping: Pick<KindleClipping, 'title' | 'author' | 'authors'>): string {
+        const title = (clipping.title || 'Unknown Book').toLowerCase().trim();
+        let author = (clipping.authors && clipping.authors.length > 0
+            ? clipping.authors
+            : KindleParser.normalizeAuthors(clipping.author || '')
+        ).join(', ').toLowerCase().trim();
+
+        if (author === 'unknown' || author === 'unknown author' || author === 'author unknown') {
+            author = '';
+        }
+
+        return `${title}|||${author}`;
+    }
+
+    static getSidecarPath(book: Pick<BookMetadata, 'title' | 'author' | 'authors'>, settings: KindleCardsSettings): string {
+        const folder = SyncEngine.getCardFolder(book, settings);
+        return normalizePath(`${folder}/${FlashcardGenerator.sanitizeFileName(book.title)} - Metadata.json`);
+    }
+
+    /**
+     * Summarise clippings per book, in the order books first appear
+     */
+    static summarize(clippings: KindleClipping[]): BookMetadata[] {
+        const books = new Map<string, BookMetadata>();
+        const updated = new Date().toISOString();
+
+        for (const clipping of clippings) {
+            const key = this.getBookKey(clipping);
+            let book = books.get(key);
+            if (!book) {
+                book = {
+                    key,
+                    title: (clipping.title || 'Unknown Book').trim(),
+                    author: (clipping.author || '').trim(),
+                    authors: clipping.authors || KindleParser.normalizeAuthors(clipping.author || ''),
+                    firstHighlight: null,
+                    lastHighlight: null,
+                    counts: {},
+                    locationSpan: null,
+                    updated
+                };
+                books.set(key, book);
+            }
+
+            const type = (clipping.type || 'highlight').toLowerCase();
+            book.counts[type] = (book.counts[type] || 0) + 1;
+            if (clipping.note) {
+                // Notes attached to a highlight still count as notes
+                book.counts.note = (book.counts.note || 0) + 1;
+            }
+
+            // Bookmarks are counted, but don't date the highlights or widen the span
+            if (type === 'bookmark') {
+                continue;
+            }
+
+            if (clipping.dateAdded && !isNaN(clipping.dateAdded.getTime())) {
+                const date = clipping.dateAdded.toISOString();
+                if (!book.firstHighlight || date < book.firstHighlight) book.firstHighlight = date;
+                if (!book.lastHighlight || date > book.lastHighlight) book.lastHighlight = date;
+            }
+
+            if (clipping.locationStart !== undefined) {
+                const end = clipping.locationEnd ?? clipping.locationStart;
+                book.locationSpan = book.locationSpan
+                    ? { start: Math.min(book.locationSpan.start, clipping.locationStart), end: Math.max(book.locationSpan.end, end) }
+                    : { start: clipping.locationStart, end };
+            }
+        }
+
+        return Array.from(books.values());
+    }
+
+    /**
+     * Bookmarks per book, in reading order, as kept in plugin data
+     */
+    static groupBookmarks(bookmarks: KindleClipping[]): Record<string, BookmarkRecord[]> {
+        const grouped: Record<string, BookmarkRecord[]> = {};
+        [...bookmarks].sort((a, b) => KindleParser.compareByPosition(a, b)).forEach(bookmark => {
+            const key = this.getBookKey(bookmark);
+            (grouped[key] = grouped[key] || []).push({
+                location: bookmark.location,
+                locationStart: bookmark.locationStart,
+                page: bookmark.page,
+                added: bookmark.dateAdded && !isNaN(bookmark.dateAdded.getTime()) ? bookmark.dateAdded.toISOString() : null
+            });
+        });
+        return grouped;
+    }
+
+    /**
+     * Recompute the summaries from the clippings and bookmarks of a sync, caching them and writing
+     * sidecars as configured. Summaries that didn't change keep their timestamp, so sidecars are only
+     * rewritten when something changed. Bookmarks are always kept, for the book index notes.
+     *
+     * A `resumed` sync only saw the entries appended since the last one, so its summaries and
+     * bookmarks are added to the previous ones instead of replacing them.
+     */
+    async update(clippings: KindleClipping[], bookmarks: KindleClipping[] = [], resumed = false): Promise<BookMetadata[]> {
+        const settings = this.getSettings();
+        const grouped = BookMetadataStore.groupBookmarks(bookmarks);
+        settings.bookmarks = resumed ? BookMetadataStore.mergeBookmarks(settings.bookmarks || {}, grouped) : grouped;
+
+        const cached = settings.bookData || {};
+        const books: BookMetadata[] = [];
+        for (const summary of BookMetadataStore.summarize([...clippings, ...bookmarks])) {
+            const previous = cached[summary.key]
+                || (resumed && settings.includeMetadataFiles ? await this.readSidecar(summary, settings) : null);
+            const book = resumed && previous ? BookMetadataStore.merge(previous, summary) : summary;
+            books.push(previous && this.isSameSummary(previous, book) ? previous : book);
+        }
+
+        // Books without new entries keep their cached summary after a resumed sync
+        settings.bookData = resumed && settings.cacheBookData ? { ...cached } : {};
+        if (settings.cacheBookData) {
+            books.forEach(book => settings.bookData[book.key] = book);
+        }
+
+        if (settings.includeMetadataFiles) {
+            let written = 0;
+            for (const book of books) {
+                try {
+                    if (await this.writeSidecar(book, settings)) written++;
+                } catch (error) {
+                    DebugLogger.error(`Failed to write metadata for "${book.title}":`, error);
+                }
+            }
+            DebugLogger.log(`Wrote ${written} book metadata files`);
+        }
+
+        return books;
+    }
+
+    /**
+     * Summaries of the books the given cards belong to: cached where available,
+     * otherwise computed from the cards themselves
+     */
+    getBooks(cards: KindleClipping[]): BookMetadata[] {
+        const settings = this.getSettings();
+        const cached = settings.cacheBookData ? settings.bookData || {} : {};
+
+        const keys = new Set<string>();
+        const uncached: KindleClipping[] = [];
+        for (const card of cards) {
+            const key = BookMetadataStore.getBookKey(card);
+            keys.add(key);
+            if (!cached[key]) uncached.push(card);
+        }
+
+        const computed = new Map(BookMetadataStore.summarize(uncached).map(book => [book.key, book]));
+        return Array.from(keys).map(key => cached[key] || computed.get(key)!);
+    }
+
+    /**
+     * Add the summary of newly parsed entries to a book's earlier summary
+     */
+    static merge(previous: BookMetadata, added: BookMetadata): BookMetadata {
+        const counts = { ...previous.counts };
+        Object.keys(added.counts).forEach(type => counts[type] = (counts[type] || 0) + added.counts[type]);
+
+        const earliest = [previous.firstHighlight, added.firstHighlight].filter((date): date is string => !!date).sort();
+        const latest = [previous.lastHighlight, added.lastHighlight].filter((date): date is string => !!date).sort();
+        const spans = [previous.locationSpan, added.locationSpan].filter((span): span is { start: number; end: number } => !!span);
+
+        return {
+            ...previous,
+            firstHighlight: earliest[0] || null,
+            lastHighlight: latest[latest.length - 1] || null,
+            counts,
+            locationSpan: spans.length > 0
+                ? { start: Math.min(...spans.map(span => span.start)), end: Math.max(...spans.map(span => span.end)) }
+                : null,
+            updated: added.updated
+        };
+    }
+
+    /**
+     * Add newly parsed bookmarks to the stored ones, keeping each bookmark once and in reading order
+     */
+    static mergeBookmarks(previous: Record<string, BookmarkRecord[]>, added: Record<string, BookmarkRecord[]>): Record<string, BookmarkRecord[]> {
+        const merged: Record<string, BookmarkRecord[]> = { ...previous };
+        Object.keys(added).forEach(key => {
+            const seen = new Set((previous[key] || []).map(bookmark => `${bookmark.location}|${bookmark.added}`));
+            merged[key] = [...(previous[key] || []), ...added[key].filter(bookmark => !seen.has(`${bookmark.location}|${bookmark.added}`))]
+                .sort((a, b) => (a.locationStart ?? Number.MAX_SAFE_INTEGER) - (b.locationStart ?? Number.MAX_SAFE_INTEGER));
+        });
+        return merged;
+    }
+
+    private isSameSummary(a: BookMetadata, b: BookMetadata): boolean {
+        return JSON.stringify({ ...a, updated: '' }) === JSON.stringify({ ...b, updated: '' });
+    }
+
+    private async readSidecar(book: BookMetadata, settings: KindleCardsSettings): Promise<BookMetadata | null> {
+        const file = this.app.vault.getAbstractFileByPath(BookMetadataStore.getSidecarPath(book, settings));
+        if (!(file instanceof TFile)) {
+            return null;
+        }
+
+        try {
+            return JSON.parse(await this.app.vault.read(file));
+        } catch (error) {
+            DebugLogger.error(`Could not read metadata for "${book.title}":`, error);
+            return null;
+        }
+    }
+
+    private async writeSidecar(book: BookMetadata, settings: KindleCardsSettings): Promise<boolean> {
+        const path = BookMetadataStore.getSidecarPath(book, settings);
+        const content = JSON.stringify(book, null, 2);
+        const existing = this.app.vault.getAbstractFileByPath(path);
+
+        if (existing instanceof TFile) {
+            if (await this.app.vault.read(existing) === content) {
+                return false;
+            }
+            await this.app.vault.modify(existing, content);
+            return true;
+        }
+
+        await VaultFolders.ensureExists(this.app, path.substring(0, path.lastIndexOf('/')));
+        await this.app.vault.create(path, content);
+        return true;
+    }
+}
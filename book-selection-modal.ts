@@ -1,7 +1,11 @@
-import { App, Modal, ButtonComponent, Notice } from 'obsidian';
+import { App, Modal, ButtonComponent, Notice, moment } from 'obsidian';
 import { FlashcardStudyModal } from './flashcard-modal';
 import { SpacedRepetitionSystem } from './spaced-repetition';
-import { KindleClipping, BookGroup, IKindleCardsPlugin } from './types';
+import { KindleParser } from './kindle-parser';
+import { BookMetadataStore } from './book-metadata';
+import { BookCovers } from './book-covers';
+import { IgnoreList } from './ignore-list';
+import { KindleClipping, BookGroup, BookMetadata, IKindleCardsPlugin } from './types';
 import { DebugLogger } from './logger';
 
 export class BookSelectionModal extends Modal {
@@ -9,16 +13,24 @@ export class BookSelectionModal extends Modal {
     private originalClippings: KindleClipping[];
     private plugin: IKindleCardsPlugin | null;
 
-    constructor(app: App, clippings: KindleClipping[], plugin?: IKindleCardsPlugin) {
+    constructor(app: App, clippings: KindleClipping[], plugin?: IKindleCardsPlugin, books?: BookMetadata[]) {
         super(app);
-        this.originalClippings = clippings;
         this.plugin = plugin || null;
-        this.bookGroups = this.groupFlashcardsByBook(clippings);
+        // Cards of ignored books may still be in the vault from before they were ignored
+        this.originalClippings = plugin
+            ? clippings.filter(clipping => !IgnoreList.isBookIgnored(plugin.settings, clipping))
+            : clippings;
+        this.bookGroups = this.groupFlashcardsByBook(this.originalClippings, books || BookMetadataStore.summarize(this.originalClippings));
     }
 
     onOpen() {
+        this.contentEl.addClass('book-selection-modal');
+        this.render();
+    }
+
+    private render() {
         const { contentEl } = this;
-        contentEl.addClass('book-selection-modal');
+        contentEl.empty();
 
         this.createHeader();
         this.createBookList();
@@ -55,6 +67,9 @@ export class BookSelectionModal extends Modal {
 
         this.bookGroups.forEach(book => {
             const bookEl = listContainer.createEl('div', { cls: 'book-item' });
+            if (this.plugin?.settings?.showBookCovers) {
+                BookCovers.render(this.app, bookEl, book.metadata, this.plugin.settings);
+            }
             const bookInfo = bookEl.createEl('div', { cls: 'book-info' });
 
             // Title
@@ -77,6 +92,15 @@ export class BookSelectionModal extends Modal {
                 cls: 'book-count'
             });
 
+            // Highlight dates, from the book summary
+            const dates = this.formatHighlightDates(book.metadata);
+            if (dates) {
+                bookInfo.createEl('div', {
+                    text: dates,
+                    cls: 'book-dates'
+                });
+            }
+
             // Study button
             new ButtonComponent(bookEl)
                 .setButtonText('Study')
@@ -85,9 +109,32 @@ export class BookSelectionModal extends Modal {
                     this.close();
                     this.startStudySession(book.flashcards, book.title);
                 });
+
+            if (this.plugin) {
+                new ButtonComponent(bookEl)
+                    .setButtonText('Ignore')
+                    .setTooltip('Leave this book out of every sync')
+                    .onClick(() => this.ignoreBook(book));
+            }
         });
     }
 
+    /**
+     * Put a book on the ignore list and take it out of the picker. Its existing cards are kept.
+     */
+    private async ignoreBook(book: BookGroup) {
+        if (!this.plugin) return;
+
+        IgnoreList.ignoreBooks(this.plugin.settings, [book.metadata]);
+        await this.plugin.saveSettings();
+
+        const ignored = new Set(book.flashcards);
+        this.originalClippings = this.originalClippings.filter(clipping => !ignored.has(clipping));
+        this.bookGroups = this.bookGroups.filter(group => group !== book);
+        new Notice(`"${book.title}" won't be synced again. Its existing cards were kept.`);
+        this.render();
+    }
+
     private createFooterActions() {
         const footerEl = this.contentEl.createEl('div', { cls: 'book-selection-footer' });
 
@@ -104,56 +151,47 @@ export class BookSelectionModal extends Modal {
             .onClick(() => this.close());
     }
 
-    private groupFlashcardsByBook(clippings: KindleClipping[]): BookGroup[] {
+    /**
+     * Collect the flashcards of each book. Titles and authors come from the book summaries,
+     * so only the card-to-book assignment is done here.
+     */
+    private groupFlashcardsByBook(clippings: KindleClipping[], books: BookMetadata[]): BookGroup[] {
         const bookMap = new Map<string, BookGroup>();
 
+        books.forEach(metadata => {
+            // Only show an author when it is actually known
+            const author = metadata.authors.length > 0 ? metadata.authors.join(', ') : metadata.author;
+            bookMap.set(metadata.key, {
+                title: metadata.title,
+                author: /^(unknown|unknown author|author unknown)$/i.test(author.trim()) ? '' : author,
+                flashcards: [],
+                count: 0,
+                metadata
+            });
+        });
+
         clippings.forEach(clipping => {
-            const bookKey = this.getBookKey(clipping);
-
-            if (!bookMap.has(bookKey)) {
-                // Clean up the author field, but preserve valid authors
-                let cleanAuthor = (clipping.author || '').trim();
-
-                // Only clear if it's explicitly unknown
-                if (cleanAuthor === 'Unknown' ||
-                    cleanAuthor === 'Unknown Author' ||
-                    cleanAuthor.toLowerCase() === 'unknown author' ||
-                    cleanAuthor.toLowerCase() === 'unknown') {
-                    cleanAuthor = '';
-                }
-
-                bookMap.set(bookKey, {
-                    title: (clipping.title || 'Unknown Book').trim(),
-                    author: cleanAuthor,
-                    flashcards: [],
-                    count: 0
-                });
+            const bookGroup = bookMap.get(BookMetadataStore.getBookKey(clipping));
+            if (bookGroup) {
+                bookGroup.flashcards.push(clipping);
+                bookGroup.count = bookGroup.flashcards.length;
             }
-
-            const bookGroup = bookMap.get(bookKey)!;
-            bookGroup.flashcards.push(clipping);
-            bookGroup.count = bookGroup.flashcards.length;
         });
 
-        const result = Array.from(bookMap.values());
+        const result = Array.from(bookMap.values()).filter(group => group.count > 0);
+        result.forEach(group => group.flashcards.sort((a, b) => KindleParser.compareByPosition(a, b)));
         DebugLogger.log('Grouped clippings into', result.length, 'books');
         return result;
     }
 
-    private getBookKey(clipping: KindleClipping): string {
-        // Create a unique key for each book based on title and author
-        const title = (clipping.title || 'Unknown Book').toLowerCase().trim();
-        let author = (clipping.author || '').toLowerCase().trim();
-
-        // Normalize unknown author variations
-        if (!author ||
-            author === 'unknown' ||
-            author === 'unknown author' ||
-            author === 'author unknown') {
-            author = '';
+    private formatHighlightDates(metadata: BookMetadata): string | null {
+        if (!metadata.firstHighlight || !metadata.lastHighlight) {
+            return null;
         }
 
-        return `${title}|||${author}`;
+        const first = moment(metadata.firstHighlight).format('MMM YYYY');
+        const last = moment(metadata.lastHighlight).format('MMM YYYY');
+        return first === last ? `Highlighted ${first}` : `Highlighted ${first} – ${last}`;
     }
 
     private startStudySession(clippings: KindleClipping[], bookTitle: string) {
@@ -166,9 +204,7 @@ export class BookSelectionModal extends Modal {
         let sortedClippings = clippings;
         if (this.plugin?.settings?.enableSpacedRepetition && this.plugin.spacedRepetition) {
             // Generate card IDs and get study cards (respecting daily limits)
-            const cardIds = clippings.map(clipping =>
-                SpacedRepetitionSystem.generateCardId(clipping.title, clipping.author, clipping.content)
-            );
+            const cardIds = clippings.map(clipping => SpacedRepetitionSystem.getCardId(clipping));
             const studyCardIds = this.plugin.spacedRepetition.getStudyCards(cardIds);
             const sortedIds = this.plugin.spacedRepetition.getSortedCards(studyCardIds);
 
@@ -0,0 +1,151 @@
+import { App, Plugin, TAbstractFile, TFile, TFolder, getAllTags, normalizePath } from 'obsidian';
+import { FlashcardGenerator } from './flashcard-generator';
+import { LibraryIndex } from './library-index';
+import { KindleClipping, KindleCardsSettings } from './types';
+import { DebugLogger } from './logger';
+
+/**
+ * In-memory index of every card in the vault.
+ *
+ * A note is a card when it is inside the output folder (at any depth), carries a card ID in
+ * its frontmatter, or is tagged #flashcard or #kindlecards. The index is built on first use and
+ * kept current from vault and metadata cache events; changed files are only re-read the next
+ * time cards are requested. Generated library and book index notes are never cards.
+ */
+export class CardIndex {
+    private app: App;
+    private getSettings: () => KindleCardsSettings;
+    private parseCard: (file: TFile) => Promise<KindleClipping | null>;
+    private cards = new Map<string, KindleClipping>();
+    private stalePaths = new Set<string>();
+    private built = false;
+
+    constructor(app: App, getSettings: () => KindleCardsSettings, parseCard: (file: TFile) => Promise<KindleClipping | null>) {
+        this.app = app;
+        this.getSettings = getSettings;
+        this.parseCard = parseCard;
+    }
+
+    /**
+     * Subscribe to vault changes. Events are registered on the plugin so they are removed on unload.
+     */
+    register(plugin: Plugin) {
+        plugin.registerEvent(this.app.vault.on('create', file => this.markStale(file)));
+        plugin.registerEvent(this.app.vault.on('modify', file => this.markStale(file)));
+        plugin.registerEvent(this.app.vault.on('delete', file => this.markStale(file)));
+        plugin.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+            if (file instanceof TFolder) {
+                // Cards inside a renamed folder all have new paths
+                this.invalidate();
+                return;
+            }
+            this.stalePaths.add(oldPath);
+            this.markStale(file);
+        }));
+        // Tags and frontmatter are only known once the metadata cache has processed a change
+        plugin.registerEvent(this.app.metadataCache.on('changed', file => this.markStale(file)));
+    }
+
+    /**
+     * Drop everything and rebuild on next use, e.g. after the output folder setting changes
+     */
+    invalidate() {
+        this.built = false;
+        this.cards.clear();
+        this.stalePaths.clear();
+    }
+
+    /**
+     * All cards, or only those inside a folder and its subfolders
+     */
+    async getCards(folderPath?: string): Promise<KindleClipping[]> {
+        await this.refresh();
+
+        const cards = Array.from(this.cards.values());
+        if (folderPath === undefined || folderPath === '' || folderPath === '/') {
+            return cards;
+        }
+
+        const prefix = `${normalizePath(folderPath)}/`;
+        return cards.filter(card => card.filePath !== undefined && card.filePath.startsWith(prefix));
+    }
+
+    /**
+     * Indexed cards at a path or inside a folder, as last read. Does not refresh, so it
+     * still describes files that were just deleted.
+     */
+    getIndexedCards(path: string): KindleClipping[] {
+        const prefix = `${path}/`;
+        return Array.from(this.cards.entries())
+            .filter(([cardPath]) => cardPath === path || cardPath.startsWith(prefix))
+            .map(([, card]) => card);
+    }
+
+    isCardFile(file: TFile): boolean {
+        if (file.extension !== 'md' || LibraryIndex.isIndexNote(this.app, file, this.getSettings())) {
+            return false;
+        }
+
+        const outputFolder = normalizePath(this.getSettings().outputFolder);
+        if (file.path.startsWith(`${outputFolder}/`)) {
+            return true;
+        }
+
+        const cache = this.app.metadataCache.getFileCache(file);
+        if (!cache) {
+            return false;
+        }
+        if (cache.frontmatter?.[FlashcardGenerator.CARD_ID_FIELD]) {
+            return true;
+        }
+
+        const tags = getAllTags(cache) || [];
+        return tags.some(tag => FlashcardGenerator.CARD_TAGS.includes(tag.toLowerCase()));
+    }
+
+    private markStale(file: TAbstractFile) {
+        if (!this.built) {
+            return;
+        }
+
+        if (file instanceof TFolder) {
+            this.getIndexedCards(file.path).forEach(card => this.stalePaths.add(card.filePath!));
+            return;
+        }
+        this.stalePaths.add(file.path);
+    }
+
+    private async refresh() {
+        if (!this.built) {
+            const files = this.app.vault.getMarkdownFiles().filter(file => this.isCardFile(file));
+            this.cards.clear();
+            this.stalePaths.clear();
+            for (const file of files) {
+                await this.indexFile(file);
+            }
+            this.built = true;
+            DebugLogger.log(`Card index built with ${this.cards.size} cards`);
+            return;
+        }
+
+        const paths = Array.from(this.stalePaths);
+        this.stalePaths.clear();
+        for (const path of paths) {
+            const file = this.app.vault.getAbstractFileByPath(path);
+            if (file instanceof TFile && this.isCardFile(file)) {
+                await this.indexFile(file);
+            } else {
+                this.cards.delete(path);
+            }
+        }
+    }
+
+    private async indexFile(file: TFile) {
+        const card = await this.parseCard(file);
+        if (card) {
+            this.cards.set(file.path, { ...card, filePath: file.path });
+        } else {
+            this.cards.delete(file.path);
+        }
+    }
+}
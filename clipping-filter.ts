@@ -0,0 +1,125 @@
+import { KindleClipping, KindleCardsSettings, FilterReport, ExcludedClipping } from './types';
+import { DebugLogger } from './logger';
+
+/**
+ * Applies the content-processing settings to parsed clippings before they become cards
+ */
+export class ClippingFilter {
+    static apply(
+        clippings: KindleClipping[],
+        settings: KindleCardsSettings
+    ): { clippings: KindleClipping[]; report: FilterReport; excluded: ExcludedClipping[] } {
+        const report: FilterReport = {
+            highlightsExcluded: 0,
+            notesExcluded: 0,
+            tooShort: 0,
+            excludedByPattern: 0,
+            notIncludedByPattern: 0,
+            truncated: 0,
+            invalidPatterns: []
+        };
+
+        const excludePatterns = this.compilePatterns(settings.excludePatterns || [], report.invalidPatterns);
+        const includePatterns = this.compilePatterns(settings.includeOnlyPatterns || [], report.invalidPatterns);
+        const minLength = settings.minimumContentLength || 0;
+        const maxLength = settings.maximumContentLength || 0;
+        const kept: KindleClipping[] = [];
+        const excluded: ExcludedClipping[] = [];
+
+        for (let clipping of clippings) {
+            const type = (clipping.type || '').toLowerCase();
+
+            if (type === 'highlight' && !settings.includeHighlightedText) {
+                report.highlightsExcluded++;
+                excluded.push({ clipping, reason: 'Highlights are turned off' });
+                continue;
+            }
+            if (type === 'note' && !settings.includeBookNotes) {
+                report.notesExcluded++;
+                excluded.push({ clipping, reason: 'Notes are turned off' });
+                continue;
+            }
+            if (clipping.note && !settings.includeBookNotes) {
+                clipping = { ...clipping, note: undefined };
+            }
+            if (clipping.content.trim().length < minLength) {
+                report.tooShort++;
+                excluded.push({ clipping, reason: `Shorter than ${minLength} characters` });
+                continue;
+            }
+            const content = clipping.content;
+            const excludedBy = excludePatterns.find(pattern => pattern.test(content));
+            if (excludedBy) {
+                report.excludedByPattern++;
+                excluded.push({ clipping, reason: `Matches exclude pattern ${excludedBy.source}` });
+                continue;
+            }
+            if (includePatterns.length > 0 && !includePatterns.some(pattern => pattern.test(content))) {
+                report.notIncludedByPattern++;
+                excluded.push({ clipping, reason: 'Matches no include pattern' });
+                continue;
+            }
+
+            if (maxLength > 0 && clipping.content.length > maxLength) {
+                report.truncated++;
+                kept.push({ ...clipping, content: this.truncate(clipping.content, maxLength) });
+            } else {
+                kept.push(clipping);
+            }
+        }
+
+        DebugLogger.log('Clipping filter report:', report);
+        return { clippings: kept, report, excluded };
+    }
+
+    /**
+     * Check a list of user patterns, returning the ones that are not valid regular expressions
+     */
+    static findInvalidPatterns(patterns: string[]): string[] {
+        const invalid: string[] = [];
+        this.compilePatterns(patterns, invalid);
+        return invalid;
+    }
+
+    static formatReport(report: FilterReport): string {
+        const parts: string[] = [];
+        if (report.highlightsExcluded > 0) parts.push(`${report.highlightsExcluded} highlights (disabled)`);
+        if (report.notesExcluded > 0) parts.push(`${report.notesExcluded} notes (disabled)`);
+        if (report.tooShort > 0) parts.push(`${report.tooShort} too short`);
+        if (report.excludedByPattern > 0) parts.push(`${report.excludedByPattern} matched an exclude pattern`);
+        if (report.notIncludedByPattern > 0) parts.push(`${report.notIncludedByPattern} matched no include pattern`);
+
+        const lines: string[] = [];
+        if (parts.length > 0) lines.push(`Filtered out: ${parts.join(', ')}`);
+        if (report.truncated > 0) lines.push(`Truncated ${report.truncated} long clippings`);
+        if (report.invalidPatterns.length > 0) lines.push(`Ignored invalid patterns: ${report.invalidPatterns.join(', ')}`);
+        return lines.join('\n');
+    }
+
+    /**
+     * Compile user patterns case-insensitively. Invalid ones are recorded and skipped
+     * so a typo in settings never aborts the sync.
+     */
+    private static compilePatterns(patterns: string[], invalid: string[]): RegExp[] {
+        const compiled: RegExp[] = [];
+
+        for (const pattern of patterns) {
+            if (!pattern || !pattern.trim()) continue;
+            try {
+                compiled.push(new RegExp(pattern, 'i'));
+            } catch (error) {
+                invalid.push(pattern);
+                DebugLogger.warn(`Ignoring invalid pattern "${pattern}":`, error);
+            }
+        }
+
+        return compiled;
+    }
+
+    private static truncate(content: string, maxLength: number): string {
+        const cut = content.substring(0, maxLength);
+        // Prefer ending on a word boundary when one is reasonably close
+        const lastSpace = cut.lastIndexOf(' ');
+        return (lastSpace > maxLength * 0.8 ? cut.substring(0, lastSpace) : cut).trimEnd() + '…';
+    }
+}
@@ -0,0 +1,95 @@
+import { debounce, Debouncer } from 'obsidian';
+import { KindleSource } from './kindle-source';
+import { ClippingsFileState } from './types';
+import { DebugLogger } from './logger';
+
+/**
+ * Polls the configured Kindle path for My Clippings.txt appearing (device mounted)
+ * or changing, and fires a debounced callback once the file has settled.
+ *
+ * Polling is used instead of fs.watch because the watched path usually doesn't
+ * exist until the Kindle is connected, and removable drives don't reliably emit events.
+ */
+export class ClippingsWatcher {
+    static readonly POLL_INTERVAL_MS = 5000;
+    static readonly DEBOUNCE_MS = 3000;
+
+    private getKindlePath: () => string;
+    private getLastSynced: () => ClippingsFileState | null;
+    private onChange: Debouncer<[], void>;
+    private intervalId: number | null = null;
+    private lastSeen: { path: string; size: number; modified: number } | null = null;
+    private checking = false;
+
+    constructor(getKindlePath: () => string, getLastSynced: () => ClippingsFileState | null, onChange: () => void) {
+        this.getKindlePath = getKindlePath;
+        this.getLastSynced = getLastSynced;
+        this.onChange = debounce(onChange, ClippingsWatcher.DEBOUNCE_MS, true);
+    }
+
+    get isRunning(): boolean {
+        return this.intervalId !== null;
+    }
+
+    /**
+     * Start polling. Returns the interval ID so the plugin can register it for cleanup.
+     */
+    start(): number | null {
+        if (this.isRunning || !KindleSource.canReadFromDisk()) {
+            return this.intervalId;
+        }
+
+        this.lastSeen = null;
+        this.intervalId = window.setInterval(() => this.check(), ClippingsWatcher.POLL_INTERVAL_MS);
+        DebugLogger.log('Watching for Kindle clippings changes');
+        this.check();
+        return this.intervalId;
+    }
+
+    stop() {
+        if (this.intervalId !== null) {
+            window.clearInterval(this.intervalId);
+            this.intervalId = null;
+        }
+        this.onChange.cancel();
+        this.lastSeen = null;
+    }
+
+    /**
+     * Compare the file on disk with what was last seen and last synced.
+     * A file matching the last sync by size and modification time is skipped without being read.
+     */
+    async check() {
+        const kindlePath = this.getKindlePath();
+        if (this.checking || !kindlePath) {
+            return;
+        }
+
+        this.checking = true;
+        try {
+            const stats = await KindleSource.getFileStats(kindlePath);
+            if (!stats) {
+                // Not connected; the next time the file shows up counts as a change
+                this.lastSeen = null;
+                return;
+            }
+
+            const seen = this.lastSeen;
+            this.lastSeen = stats;
+            if (seen && seen.path === stats.path && seen.size === stats.size && seen.modified === stats.modified) {
+                return;
+            }
+
+            const synced = this.getLastSynced();
+            if (synced && synced.path === stats.path && synced.size === stats.size && synced.modified === stats.modified) {
+                DebugLogger.log('Clippings file unchanged since last sync');
+                return;
+            }
+
+            DebugLogger.log('Clippings file appeared or changed:', stats.path);
+            this.onChange();
+        } finally {
+            this.checking = false;
+        }
+    }
+}
@@ -0,0 +1,54 @@
+/**
+ * A digest built up from bytes fed in pieces, e.g. a file read a chunk at a time
+ */
+export interface ContentHashStream {
+    update(bytes: Uint8Array): void;
+    digest(): string; // Digest of everything fed so far; more can still be fed afterwards
+}
+
+/**
+ * Deterministic string hashing used for clipping identity and change detection
+ */
+export class ContentHash {
+    /**
+     * 64-bit hash built from two independent 32-bit lanes, returned as 16 hex characters.
+     * Works on UTF-16 code units, so it is stable for any Unicode input.
+     */
+    static digest(value: string): string {
+        let h1 = 0xdeadbeef;
+        let h2 = 0x41c6ce57;
+
+        for (let i = 0; i < value.length; i++) {
+            const char = value.charCodeAt(i);
+            h1 = Math.imul(h1 ^ char, 2654435761);
+            h2 = Math.imul(h2 ^ char, 1597334677);
+        }
+
+        return this.finish(h1, h2);
+    }
+
+    /**
+     * The same hash over raw bytes, fed in any number of pieces
+     */
+    static createStream(): ContentHashStream {
+        let h1 = 0xdeadbeef;
+        let h2 = 0x41c6ce57;
+
+        return {
+            update: (bytes: Uint8Array) => {
+                for (let i = 0; i < bytes.length; i++) {
+                    h1 = Math.imul(h1 ^ bytes[i], 2654435761);
+                    h2 = Math.imul(h2 ^ bytes[i], 1597334677);
+                }
+            },
+            digest: () => this.finish(h1, h2)
+        };
+    }
+
+    private static finish(h1: number, h2: number): string {
+        h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+        h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+        return (h2 >>> 0).toString(16).padStart(8, '0') + (h1 >>> 0).toString(16).padStart(8, '0');
+    }
+}
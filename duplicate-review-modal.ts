@@ -0,0 +1,89 @@
+import { App, Modal, ButtonComponent } from 'obsidian';
+import { DuplicateGroup, KindleClipping } from './types';
+
+/**
+ * Lets the user confirm which duplicate merges to apply before sync writes any files
+ */
+export class DuplicateReviewModal extends Modal {
+    private groups: DuplicateGroup[];
+    private accepted: Set<DuplicateGroup>;
+    private onSubmit: (accepted: DuplicateGroup[] | null) => void;
+    private submitted = false;
+
+    constructor(app: App, groups: DuplicateGroup[], onSubmit: (accepted: DuplicateGroup[] | null) => void) {
+        super(app);
+        this.groups = groups;
+        this.accepted = new Set(groups);
+        this.onSubmit = onSubmit;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.addClass('duplicate-review-modal');
+
+        contentEl.createEl('h2', { text: 'Review Duplicate Highlights' });
+        contentEl.createEl('p', {
+            text: `${this.groups.length} passages were highlighted more than once. Untick a merge to keep every version as its own card.`,
+            cls: 'duplicate-review-subtitle'
+        });
+
+        const listEl = contentEl.createEl('div', { cls: 'duplicate-review-list' });
+        this.groups.forEach(group => this.createGroupItem(listEl, group));
+
+        const footerEl = contentEl.createEl('div', { cls: 'duplicate-review-footer' });
+
+        new ButtonComponent(footerEl)
+            .setButtonText('Apply and Sync')
+            .setCta()
+            .onClick(() => this.submit(this.groups.filter(group => this.accepted.has(group))));
+
+        new ButtonComponent(footerEl)
+            .setButtonText('Cancel Sync')
+            .onClick(() => this.submit(null));
+    }
+
+    private createGroupItem(listEl: HTMLElement, group: DuplicateGroup) {
+        const itemEl = listEl.createEl('div', { cls: 'duplicate-review-item' });
+        const headerEl = itemEl.createEl('label', { cls: 'duplicate-review-item-header' });
+
+        const checkbox = headerEl.createEl('input', { type: 'checkbox' });
+        checkbox.checked = true;
+        checkbox.onchange = () => {
+            if (checkbox.checked) {
+                this.accepted.add(group);
+            } else {
+                this.accepted.delete(group);
+            }
+            itemEl.toggleClass('is-rejected', !checkbox.checked);
+        };
+
+        headerEl.createSpan({ text: `${group.kept.title} — merge ${group.duplicates.length + 1} versions` });
+
+        this.createClippingRow(itemEl, group.kept, 'Keep');
+        group.duplicates.forEach(duplicate => this.createClippingRow(itemEl, duplicate, 'Drop'));
+    }
+
+    private createClippingRow(parentEl: HTMLElement, clipping: KindleClipping, label: string) {
+        const rowEl = parentEl.createEl('div', { cls: `duplicate-review-row duplicate-review-${label.toLowerCase()}` });
+        rowEl.createEl('span', { text: label, cls: 'duplicate-review-label' });
+        rowEl.createEl('span', { text: `Location ${clipping.location} · ${clipping.date}`, cls: 'duplicate-review-meta' });
+        rowEl.createEl('div', { text: clipping.content, cls: 'duplicate-review-text' });
+    }
+
+    private submit(accepted: DuplicateGroup[] | null) {
+        this.submitted = true;
+        this.close();
+        this.onSubmit(accepted);
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        // Closing with Escape or the close button counts as cancelling
+        if (!this.submitted) {
+            this.submitted = true;
+            this.onSubmit(null);
+        }
+    }
+}
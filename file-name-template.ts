@@ -0,0 +1,139 @@
+import { moment } from 'obsidian';
+import { FlashcardGenerator } from './flashcard-generator';
+import { KindleClipping } from './types';
+
+export interface FileNameContext {
+    index: number; // 1-based position of the clipping within its book, in My Clippings.txt order
+    hash: string;  // Short stable hash of the clipping identity
+}
+
+/**
+ * Renders card file names from `cardFileNamingFormat`.
+ *
+ * Supports the card template placeholders plus `{{date:YYYY-MM-DD}}` (any moment.js format,
+ * using the date the clipping was added), `{{index}}`, `{{hash}}`, and a length limit on
+ * any text placeholder, e.g. `{{content:40}}`.
+ */
+export class FileNameTemplate {
+    static readonly DEFAULT_FORMAT = '{{title}} - {{location}}';
+
+    static readonly PLACEHOLDERS = [
+        'highlight', 'content', 'quote', 'note', 'title', 'author', 'authors',
+        'location', 'page', 'position', 'date', 'type', 'index', 'hash'
+    ];
+
+    private static readonly PLACEHOLDER_REGEX = /\{\{\s*([a-z]+)(?::([^}]*))?\s*\}\}/gi;
+
+    /**
+     * Render a file name (without extension). Falls back to the default format
+     * when the template is invalid, so a bad setting never blocks a sync.
+     */
+    static render(template: string, clipping: KindleClipping, context: FileNameContext): string {
+        const format = this.validate(template) ? this.DEFAULT_FORMAT : template;
+        const name = this.sanitize(this.substitute(format, clipping, context));
+        return name || this.sanitize(this.substitute(this.DEFAULT_FORMAT, clipping, context));
+    }
+
+    /**
+     * Check a naming template, returning an error message or null when it is usable
+     */
+    static validate(template: string): string | null {
+        if (!template || !template.trim()) {
+            return 'The file name format is empty';
+        }
+
+        const withoutPlaceholders = template.replace(this.PLACEHOLDER_REGEX, '');
+        if (/\{\{|\}\}/.test(withoutPlaceholders)) {
+            return 'Unbalanced {{ or }} in the file name format';
+        }
+
+        const unknown: string[] = [];
+        let match: RegExpExecArray | null;
+        const regex = new RegExp(this.PLACEHOLDER_REGEX.source, 'gi');
+        while ((match = regex.exec(template)) !== null) {
+            const name = match[1].toLowerCase();
+            const argument = match[2];
+            if (!this.PLACEHOLDERS.includes(name)) {
+                unknown.push(match[0]);
+            } else if (argument !== undefined && name !== 'date' && !/^\d+$/.test(argument.trim())) {
+                return `${match[0]}: only {{date:...}} takes a format; other placeholders take a length, e.g. {{content:40}}`;
+            }
+        }
+        if (unknown.length > 0) {
+            return `Unknown placeholders: ${unknown.join(', ')}`;
+        }
+
+        if (/[\\/]/.test(withoutPlaceholders)) {
+            return 'File names cannot contain / or \\; use the folder settings to organise cards';
+        }
+
+        const sample = this.sanitize(this.substitute(template, FlashcardGenerator.SAMPLE_CLIPPING, { index: 1, hash: 'a1b2c3d4' }));
+        if (!sample) {
+            return 'The file name format produces an empty file name';
+        }
+        if (/^(con|prn|aux|nul|com\d|lpt\d)$/i.test(sample)) {
+            return `"${sample}" is a reserved file name`;
+        }
+
+        return null;
+    }
+
+    /**
+     * Example output for the settings tab
+     */
+    static preview(template: string): string {
+        return this.sanitize(this.substitute(template, FlashcardGenerator.SAMPLE_CLIPPING, { index: 1, hash: 'a1b2c3d4' }));
+    }
+
+    private static substitute(template: string, clipping: KindleClipping, context: FileNameContext): string {
+        return template.replace(this.PLACEHOLDER_REGEX, (placeholder, rawName: string, argument?: string) => {
+            const name = rawName.toLowerCase();
+
+            if (name === 'date' && argument !== undefined) {
+                return clipping.dateAdded ? moment(clipping.dateAdded).format(argument.trim()) : '';
+            }
+
+            const value = this.getValue(name, clipping, context);
+            if (value === null) {
+                return placeholder;
+            }
+
+            const maxLength = argument !== undefined ? parseInt(argument.trim(), 10) : NaN;
+            return isNaN(maxLength) ? value : value.replace(/\s+/g, ' ').trim().substring(0, maxLength).trim();
+        });
+    }
+
+    private static getValue(name: string, clipping: KindleClipping, context: FileNameContext): string | null {
+        switch (name) {
+            case 'index': return String(context.index);
+            case 'hash': return context.hash;
+            case 'note': return clipping.note || '';
+            case 'page': return clipping.page || '';
+            case 'position': return FlashcardGenerator.formatPosition(clipping);
+            case 'authors':
+                return clipping.authors && clipping.authors.length > 0 ? clipping.authors.join(', ') : clipping.author;
+            case 'highlight':
+            case 'content':
+            case 'quote':
+                return clipping.content;
+            case 'title':
+            case 'author':
+            case 'location':
+            case 'date':
+            case 'type':
+                return clipping[name] || '';
+            default:
+                return null;
+        }
+    }
+
+    /**
+     * File-system safe name; also strips the leading and trailing dots and dashes
+     * that empty placeholders leave behind
+     */
+    private static sanitize(name: string): string {
+        return FlashcardGenerator.sanitizeFileName(name.replace(/[\r\n\t]+/g, ' '))
+            .replace(/^[\s.\-–·]+|[\s.\-–·]+$/g, '')
+            .trim();
+    }
+}
@@ -1,17 +1,211 @@
+import { moment } from 'obsidian';
 import { KindleClipping } from './types';
+import { Frontmatter } from './frontmatter';
+import { KindleParser } from './kindle-parser';
+import { TemplateEngine, TemplateNode } from './template-engine';
+import { DebugLogger } from './logger';
 
 export class FlashcardGenerator {
+	// Frontmatter field holding the persistent card ID that review history is keyed by
+	static readonly CARD_ID_FIELD = 'kindlecards-id';
+
+	// Tag written into every generated card so cards can be found wherever they are moved
+	static readonly CARD_TAG = 'kindlecards';
+
+	// Tags that mark a note as a card, including cards written before card IDs existed
+	static readonly CARD_TAGS = ['#flashcard', `#${FlashcardGenerator.CARD_TAG}`];
+
+	static readonly DEFAULT_TEMPLATE = '{{content}}\n\n**Source:** {{title}} by {{author}} - {{position}}';
+
+	static readonly TEMPLATE_VARIABLES = [
+		'highlight', 'content', 'quote', 'note', 'title', 'author', 'authors',
+		'location', 'page', 'position', 'date', 'type'
+	];
+
+	// Stands in for a real clipping in template previews and validation
+	static readonly SAMPLE_CLIPPING: KindleClipping = {
+		title: 'Sample Book',
+		author: 'Sample Author',
+		authors: ['Sample Author'],
+		type: 'Highlight',
+		location: '100-102',
+		page: '12',
+		locationStart: 100,
+		locationEnd: 102,
+		date: 'Monday, January 1, 2024 12:00:00 PM',
+		dateAdded: new Date(2024, 0, 1, 12, 0, 0),
+		content: 'Sample highlighted passage',
+		note: 'Sample note on the passage'
+	};
+
+	// The same template is rendered for every clipping in a sync, so keep the last parse
+	private static parsedTemplate: { template: string; nodes: TemplateNode[] } | null = null;
 
 	static generateFlashcard(clipping: KindleClipping, template: string): string {
-		return template
-			.replace(/\{\{highlight\}\}/g, clipping.content)
-			.replace(/\{\{content\}\}/g, clipping.content)
-			.replace(/\{\{quote\}\}/g, clipping.content)
-			.replace(/\{\{title\}\}/g, clipping.title)
-			.replace(/\{\{author\}\}/g, clipping.author)
-			.replace(/\{\{location\}\}/g, clipping.location)
-			.replace(/\{\{date\}\}/g, clipping.date)
-			.replace(/\{\{type\}\}/g, clipping.type);
+		const nodes = this.parseTemplate(template);
+
+		// Templates without {{note}} still get the note as the question side of {{content}}
+		const content = clipping.note && !TemplateEngine.usesVariable(nodes, 'note')
+			? this.composeQuestionAndAnswer(clipping.note, clipping.content)
+			: clipping.content;
+
+		return TemplateEngine.render(nodes, {
+			highlight: clipping.content,
+			content,
+			quote: clipping.content,
+			note: clipping.note || '',
+			title: clipping.title,
+			author: clipping.author,
+			authors: (clipping.authors && clipping.authors.length > 0) ? clipping.authors : [clipping.author],
+			location: clipping.location === 'Unknown' ? '' : clipping.location,
+			page: clipping.page || '',
+			position: this.formatPosition(clipping),
+			date: { text: clipping.date, date: clipping.dateAdded || null },
+			type: clipping.type
+		});
+	}
+
+	/**
+	 * Check a card template, returning a syntax error message or null when it is valid
+	 */
+	static validateTemplate(template: string): string | null {
+		return TemplateEngine.validate(template, this.TEMPLATE_VARIABLES);
+	}
+
+	/**
+	 * Parse a card template. A template with syntax errors falls back to the default,
+	 * so a bad setting never blocks a sync.
+	 */
+	private static parseTemplate(template: string): TemplateNode[] {
+		if (this.parsedTemplate && this.parsedTemplate.template === template) {
+			return this.parsedTemplate.nodes;
+		}
+
+		let { nodes, error } = TemplateEngine.parse(template);
+		if (error) {
+			DebugLogger.warn(`Invalid card template (${error}), using the default template`);
+			nodes = TemplateEngine.parse(this.DEFAULT_TEMPLATE).nodes;
+		}
+
+		this.parsedTemplate = { template, nodes };
+		return nodes;
+	}
+
+	/**
+	 * Lay out a note and its highlight the way the study modal splits question and answer
+	 */
+	static composeQuestionAndAnswer(question: string, answer: string): string {
+		return `${question}\n\n**Answer:** ${answer}`;
+	}
+
+	/**
+	 * Human-readable position, e.g. "p. 12 · loc. 180–182", "p. 12" or "loc. 180–182".
+	 * Empty when neither a page nor a location is known.
+	 */
+	static formatPosition(clipping: Pick<KindleClipping, 'page' | 'locationStart' | 'locationEnd'>): string {
+		const parts: string[] = [];
+
+		if (clipping.page) {
+			parts.push(`p. ${clipping.page.replace('-', '–')}`);
+		}
+		if (clipping.locationStart !== undefined) {
+			const end = clipping.locationEnd;
+			parts.push(end !== undefined && end !== clipping.locationStart
+				? `loc. ${clipping.locationStart}–${end}`
+				: `loc. ${clipping.locationStart}`);
+		}
+
+		return parts.join(' · ');
+	}
+
+	/**
+	 * Inverse of formatPosition for text read back from a card file. A bare number or range,
+	 * as written by the old "Page {{location}}" template, is a Kindle location.
+	 */
+	static parsePosition(text: string): { page?: string; locationStart?: number; locationEnd?: number } {
+		const result: { page?: string; locationStart?: number; locationEnd?: number } = {};
+		const pageMatch = text.match(/\bp\.\s*([\divxlcdm]+(?:[–-][\divxlcdm]+)?)/i);
+		const locationMatch = text.match(/\bloc\.\s*(\d+)(?:[–-](\d+))?/i) ||
+			(!pageMatch ? text.match(/^\s*(?:page|location)?\s*(\d+)(?:[–-](\d+))?\s*$/i) : null);
+
+		if (pageMatch) {
+			result.page = pageMatch[1].replace('–', '-');
+		}
+		if (locationMatch) {
+			const range = KindleParser.parseLocationRange(locationMatch[2] ? `${locationMatch[1]}-${locationMatch[2]}` : locationMatch[1]);
+			result.locationStart = range?.start;
+			result.locationEnd = range?.end;
+		}
+
+		return result;
+	}
+
+	/**
+	 * Render a complete card file. The clipping's metadata goes into the frontmatter,
+	 * merged over any frontmatter the template writes.
+	 */
+	static generateCardFile(clipping: KindleClipping, template: string, cardId: string): string {
+		const { data, body } = Frontmatter.split(this.generateFlashcard(clipping, template));
+		const templateTags = Array.isArray(data.tags) ? data.tags : (data.tags ? [data.tags] : []);
+		const tags = [this.CARD_TAG, ...templateTags.filter((tag: unknown) => tag !== this.CARD_TAG)];
+
+		return Frontmatter.compose({
+			[this.CARD_ID_FIELD]: cardId,
+			...data,
+			...this.getCardMetadata(clipping),
+			tags
+		}, body);
+	}
+
+	/**
+	 * Structured card metadata for the frontmatter. Empty fields are left out.
+	 */
+	static getCardMetadata(clipping: KindleClipping): Record<string, any> {
+		const authors = clipping.authors && clipping.authors.length > 0 ? clipping.authors : [clipping.author];
+
+		return {
+			title: clipping.title,
+			authors: authors.filter(author => author && author !== 'Unknown Author'),
+			location: clipping.location && clipping.location !== 'Unknown' ? clipping.location : null,
+			page: clipping.page || null,
+			date: clipping.dateAdded ? moment(clipping.dateAdded).format('YYYY-MM-DDTHH:mm:ss') : clipping.date,
+			type: clipping.type
+		};
+	}
+
+	/**
+	 * Inverse of getCardMetadata. Returns null for frontmatter without card metadata,
+	 * e.g. cards written before metadata was added.
+	 */
+	static readCardMetadata(frontmatter: Record<string, any> | null | undefined): Omit<KindleClipping, 'content'> | null {
+		const text = (value: unknown) => (value === null || value === undefined) ? '' : String(value);
+		if (!frontmatter || !text(frontmatter.title)) {
+			return null;
+		}
+
+		const authors = (Array.isArray(frontmatter.authors) ? frontmatter.authors : [frontmatter.authors])
+			.map(text)
+			.filter(author => author.length > 0);
+		const location = text(frontmatter.location) || 'Unknown';
+		const range = KindleParser.parseLocationRange(location);
+		const dateAdded = frontmatter.date instanceof Date ? moment(frontmatter.date)
+			: frontmatter.date ? moment(text(frontmatter.date), moment.ISO_8601, true)
+			: null;
+		const cardId = text(frontmatter[this.CARD_ID_FIELD]);
+
+		return {
+			title: text(frontmatter.title),
+			author: authors.length > 0 ? authors.join(', ') : 'Unknown Author',
+			authors,
+			type: text(frontmatter.type) || 'Highlight',
+			location,
+			page: text(frontmatter.page) || undefined,
+			locationStart: range?.start,
+			locationEnd: range?.end,
+			date: dateAdded && dateAdded.isValid() ? dateAdded.format('YYYY-MM-DDTHH:mm:ss') : (text(frontmatter.date) || 'Unknown'),
+			dateAdded: dateAdded && dateAdded.isValid() ? dateAdded.toDate() : undefined,
+			cardId: cardId || undefined
+		};
 	}
 
 	static sanitizeFileName(fileName: string): string {
@@ -21,4 +215,25 @@ export class FlashcardGenerator {
 			.trim()
 			.substring(0, 200);
 	}
+
+	/**
+	 * Make a book title or author name safe as a single folder name on every platform:
+	 * no path separators or characters that break links, no leading or trailing dots,
+	 * and no names Windows reserves for devices
+	 */
+	static sanitizeFolderName(name: string): string {
+		let folderName = (name || '')
+			.replace(/[\\/:*?"<>|#^[\]]/g, '-')
+			.replace(/[\u0000-\u001f]/g, '')
+			.replace(/\s+/g, ' ')
+			.trim()
+			.substring(0, 100)
+			.replace(/^[.\s]+|[.\s]+$/g, '');
+
+		if (/^(con|prn|aux|nul|com\d|lpt\d)$/i.test(folderName)) {
+			folderName = `${folderName}_`;
+		}
+
+		return folderName || 'Untitled';
+	}
 }
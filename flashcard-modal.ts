@@ -1,5 +1,6 @@
 import { App, Modal, Notice, ButtonComponent } from 'obsidian';
 import { SpacedRepetitionSystem } from './spaced-repetition';
+import { FlashcardGenerator } from './flashcard-generator';
 import { KindleClipping, StudyStats, IKindleCardsPlugin } from './types';
 import { DebugLogger } from './logger';
 
@@ -201,10 +202,11 @@ export class FlashcardStudyModal extends Modal {
         const contentEl = answerEl.createEl('div', { cls: 'flashcard-answer-content' });
         contentEl.createEl('p', { text: cleanAnswer });
 
-        // Add page/location information if available
-        if (currentClipping.location && currentClipping.location !== 'Unknown' && currentClipping.location !== 'N/A' && currentClipping.location !== '') {
+        // Add page/location information if available ("p. 12" for pages, "loc. 180–182" for Kindle locations)
+        const position = FlashcardGenerator.formatPosition(currentClipping);
+        if (position) {
             const locationEl = answerEl.createEl('div', { cls: 'flashcard-location' });
-            locationEl.createEl('small', { text: `Page ${currentClipping.location}` });
+            locationEl.createEl('small', { text: position });
         } else {
             // Fallback: show source book and author if no page number
             const sourceEl = answerEl.createEl('div', { cls: 'flashcard-location' });
@@ -366,11 +368,7 @@ export class FlashcardStudyModal extends Modal {
         if (this.plugin?.settings?.enableSpacedRepetition && this.plugin.spacedRepetition) {
             try {
                 // Generate card ID
-                const cardId = SpacedRepetitionSystem.generateCardId(
-                    currentClipping.title,
-                    currentClipping.author,
-                    currentClipping.content
-                );
+                const cardId = SpacedRepetitionSystem.getCardId(currentClipping);
 
                 // Review the card with Anki-style result
                 this.plugin.spacedRepetition.reviewCard(cardId, { quality: result });
@@ -0,0 +1,58 @@
+import { parseYaml, stringifyYaml } from 'obsidian';
+
+/**
+ * Minimal YAML frontmatter helpers for card files
+ */
+export class Frontmatter {
+    private static readonly FRONTMATTER_REGEX = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+    /**
+     * Split file content into parsed frontmatter and the remaining body.
+     * Malformed YAML is treated as an empty frontmatter block but still removed from the body.
+     */
+    static split(content: string): { data: Record<string, any>; body: string } {
+        const match = content.match(this.FRONTMATTER_REGEX);
+        if (!match) {
+            return { data: {}, body: content };
+        }
+
+        let data: Record<string, any> = {};
+        try {
+            const parsed = parseYaml(match[1]);
+            if (parsed && typeof parsed === 'object') {
+                data = parsed;
+            }
+        } catch (error) {
+            console.warn('Failed to parse card frontmatter:', error);
+        }
+
+        return { data, body: content.slice(match[0].length) };
+    }
+
+    /**
+     * Prepend a frontmatter block to a body. Empty data produces no block.
+     */
+    static compose(data: Record<string, any>, body: string): string {
+        const cleaned: Record<string, any> = {};
+        for (const [key, value] of Object.entries(data)) {
+            if (value !== undefined && value !== null) {
+                cleaned[key] = value;
+            }
+        }
+        if (Object.keys(cleaned).length === 0) {
+            return body;
+        }
+
+        const yaml = stringifyYaml(cleaned).trimEnd();
+        return `---\n${yaml}\n---\n${body}`;
+    }
+
+    /**
+     * Set a single field, keeping the rest of the file untouched
+     */
+    static setField(content: string, field: string, value: any): string {
+        const { data, body } = this.split(content);
+        data[field] = value;
+        return this.compose(data, body);
+    }
+}
@@ -0,0 +1,127 @@
+import { App, Modal, ButtonComponent } from 'obsidian';
+import { IgnoreList } from './ignore-list';
+import { IKindleCardsPlugin } from './types';
+
+/**
+ * Lists ignored books and rejected clippings, with actions to take them off the ignore list
+ */
+export class IgnoreListModal extends Modal {
+    private static readonly MAX_ROWS = 100;
+
+    private plugin: IKindleCardsPlugin;
+    private onChange?: () => void;
+
+    constructor(app: App, plugin: IKindleCardsPlugin, onChange?: () => void) {
+        super(app);
+        this.plugin = plugin;
+        this.onChange = onChange;
+    }
+
+    onOpen() {
+        this.contentEl.addClass('ignore-list-modal');
+        this.render();
+    }
+
+    private render() {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        contentEl.createEl('h2', { text: 'Ignore List' });
+        contentEl.createEl('p', {
+            text: 'Nothing on this list becomes a card. Removing an entry lets the next sync pick it up again.',
+            cls: 'ignore-list-description'
+        });
+
+        this.renderBooks(contentEl);
+        this.renderClippings(contentEl);
+
+        const footerEl = contentEl.createEl('div', { cls: 'ignore-list-footer' });
+        new ButtonComponent(footerEl)
+            .setButtonText('Close')
+            .onClick(() => this.close());
+    }
+
+    private renderBooks(parentEl: HTMLElement) {
+        const books = Object.entries(this.plugin.settings.ignoredBooks || {})
+            .sort(([, a], [, b]) => a.title.localeCompare(b.title));
+        const sectionEl = parentEl.createEl('div', { cls: 'ignore-list-section' });
+        sectionEl.createEl('h3', { text: `Ignored Books (${books.length})` });
+
+        if (books.length === 0) {
+            sectionEl.createEl('p', {
+                text: 'No books are ignored. Use "Ignore" in the book picker or "Ignore Book" in the sync preview.',
+                cls: 'ignore-list-empty'
+            });
+            return;
+        }
+
+        const listEl = sectionEl.createEl('div', { cls: 'ignore-list-list' });
+        books.slice(0, IgnoreListModal.MAX_ROWS).forEach(([key, book]) => {
+            this.createRow(listEl, book.title, [book.author, `ignored ${new Date(book.ignoredAt).toLocaleDateString()}`], async () => {
+                IgnoreList.removeBook(this.plugin.settings, key);
+                await this.save();
+            });
+        });
+        this.createOverflowNote(listEl, books.length);
+    }
+
+    private renderClippings(parentEl: HTMLElement) {
+        const clippings = Object.entries(this.plugin.settings.rejectedClippings || {})
+            .sort(([, a], [, b]) => a.title.localeCompare(b.title) || a.location.localeCompare(b.location));
+        const sectionEl = parentEl.createEl('div', { cls: 'ignore-list-section' });
+        sectionEl.createEl('h3', { text: `Rejected Clippings (${clippings.length})` });
+
+        if (clippings.length === 0) {
+            sectionEl.createEl('p', { text: 'No clippings have been unticked in the sync preview.', cls: 'ignore-list-empty' });
+            return;
+        }
+
+        const listEl = sectionEl.createEl('div', { cls: 'ignore-list-list' });
+        clippings.slice(0, IgnoreListModal.MAX_ROWS).forEach(([key, clipping]) => {
+            const details = [clipping.location ? `location ${clipping.location}` : '', `rejected ${new Date(clipping.rejectedAt).toLocaleDateString()}`];
+            this.createRow(listEl, clipping.title, details, async () => {
+                IgnoreList.removeClipping(this.plugin.settings, key);
+                await this.save();
+            });
+        });
+        this.createOverflowNote(listEl, clippings.length);
+
+        new ButtonComponent(sectionEl)
+            .setButtonText('Remove All')
+            .onClick(async () => {
+                this.plugin.settings.rejectedClippings = {};
+                await this.save();
+            });
+    }
+
+    private createRow(listEl: HTMLElement, label: string, details: string[], onRemove: () => Promise<void>) {
+        const rowEl = listEl.createEl('div', { cls: 'ignore-list-row' });
+        const infoEl = rowEl.createEl('div', { cls: 'ignore-list-info' });
+        infoEl.createEl('div', { text: label, cls: 'ignore-list-label' });
+        infoEl.createEl('div', { text: details.filter(Boolean).join(' · '), cls: 'ignore-list-meta' });
+
+        new ButtonComponent(rowEl)
+            .setButtonText('Remove')
+            .onClick(onRemove);
+    }
+
+    private createOverflowNote(listEl: HTMLElement, total: number) {
+        if (total > IgnoreListModal.MAX_ROWS) {
+            listEl.createEl('div', {
+                text: `…and ${total - IgnoreListModal.MAX_ROWS} more`,
+                cls: 'ignore-list-meta'
+            });
+        }
+    }
+
+    private async save() {
+        await this.plugin.saveSettings();
+        this.render();
+        this.onChange?.();
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
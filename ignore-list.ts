@@ -0,0 +1,78 @@
+import { BookMetadataStore } from './book-metadata';
+import { ContentHash } from './content-hash';
+import { KindleClipping, KindleCardsSettings, SyncPlanItem } from './types';
+
+/**
+ * Books and clippings that should never become cards.
+ *
+ * Books are keyed like book summaries (title and normalised authors) and are dropped while
+ * My Clippings.txt is parsed. Single clippings are the ones unticked in the sync preview, and are
+ * left out when a sync is planned. They are keyed by a digest of the entry itself (see
+ * `getClippingKey`), so a rejection still applies when other clippings are added, merged or filtered.
+ * Entries are always written to fresh objects, so the defaults are never shared or mutated.
+ */
+export class IgnoreList {
+    static isBookIgnored(settings: KindleCardsSettings, book: Pick<KindleClipping, 'title' | 'author' | 'authors'>): boolean {
+        return !!(settings.ignoredBooks || {})[BookMetadataStore.getBookKey(book)];
+    }
+
+    static isClippingIgnored(settings: KindleCardsSettings, clipping: KindleClipping): boolean {
+        return !!(settings.rejectedClippings || {})[this.getClippingKey(clipping)];
+    }
+
+    /**
+     * Digest of the book, type, position and time an entry was added. These are fixed once the
+     * Kindle writes the entry and aren't changed by content settings (which may shorten the text).
+     */
+    static getClippingKey(clipping: KindleClipping): string {
+        const normalize = (value: string | undefined) => (value || '').toLowerCase().replace(/\s+/g, ' ').trim();
+        return ContentHash.digest([
+            BookMetadataStore.getBookKey(clipping),
+            normalize(clipping.type),
+            normalize(clipping.location),
+            normalize(clipping.page),
+            normalize(clipping.date)
+        ].join('|'));
+    }
+
+    static ignoreBooks(settings: KindleCardsSettings, books: Pick<KindleClipping, 'title' | 'author' | 'authors'>[]) {
+        const ignoredAt = new Date().toISOString();
+        const ignored = { ...(settings.ignoredBooks || {}) };
+        books.forEach(book => {
+            const authors = book.authors && book.authors.length > 0 ? book.authors.join(', ') : book.author;
+            ignored[BookMetadataStore.getBookKey(book)] = { title: book.title, author: authors || '', ignoredAt };
+        });
+        settings.ignoredBooks = ignored;
+    }
+
+    static ignoreClippings(settings: KindleCardsSettings, clippings: KindleClipping[]) {
+        const rejectedAt = new Date().toISOString();
+        const rejected = { ...(settings.rejectedClippings || {}) };
+        clippings.forEach(clipping => {
+            rejected[this.getClippingKey(clipping)] = { title: clipping.title, location: clipping.location, rejectedAt };
+        });
+        settings.rejectedClippings = rejected;
+    }
+
+    /**
+     * Put the new clippings left unticked in a sync preview on the ignore list, returning how many.
+     * An unticked update only skips this sync: its card exists, so later changes are still offered.
+     */
+    static rejectUnticked(settings: KindleCardsSettings, items: SyncPlanItem[], selected: Set<string>): number {
+        const unticked = items.filter(item => item.action === 'new' && !selected.has(item.key));
+        this.ignoreClippings(settings, unticked.map(item => item.clipping));
+        return unticked.length;
+    }
+
+    static removeBook(settings: KindleCardsSettings, key: string) {
+        const ignored = { ...(settings.ignoredBooks || {}) };
+        delete ignored[key];
+        settings.ignoredBooks = ignored;
+    }
+
+    static removeClipping(settings: KindleCardsSettings, key: string) {
+        const rejected = { ...(settings.rejectedClippings || {}) };
+        delete rejected[key];
+        settings.rejectedClippings = rejected;
+    }
+}
@@ -0,0 +1,12 @@
+/** @type {import('ts-jest').JestConfigWithTsJest} */
+module.exports = {
+	testEnvironment: 'node',
+	roots: ['<rootDir>/tests'],
+	transform: {
+		'^.+\\.ts$': ['ts-jest', { tsconfig: { module: 'commonjs', target: 'ES2018', lib: ['DOM', 'ES2018'], isolatedModules: true } }]
+	},
+	// The obsidian package only ships type declarations
+	moduleNameMapper: {
+		'^obsidian$': '<rootDir>/tests/obsidian-stub.ts'
+	}
+};
@@ -0,0 +1,260 @@
+/**
+ * Kindle UI languages for parsing the metadata line of My Clippings.txt entries, e.g.
+ * "- Your Highlight on Location 123-125 | Added on Monday, January 1, 2024 12:00:00 PM"
+ * "- Ihre Markierung auf Seite 12 | Position 180-182 | Hinzugefügt am Montag, 1. Januar 2024 12:00:00"
+ */
+
+export type ClippingType = 'Highlight' | 'Note' | 'Bookmark';
+
+export interface KindleLocale {
+    code: string;
+    name: string;
+    types: Record<ClippingType, RegExp>;
+    location: RegExp;  // Group 1: location number or range
+    page: RegExp;      // Group 1: page number or range (may be roman numerals)
+    dateAdded: RegExp; // Group 1: the raw date text
+    parseDate(raw: string): Date | null;
+}
+
+export interface LocalizedMetadata {
+    language: string; // Locale code, or 'unknown' when no locale matched
+    type: ClippingType | 'Unknown';
+    location: string;
+    page: string | null;
+    date: string;
+    dateAdded: Date | null;
+}
+
+interface ParsedTime {
+    text: string;
+    hours: number;
+    minutes: number;
+    seconds: number;
+}
+
+const LOCATION_RANGE = '(\\d+(?:-\\d+)?)';
+const PAGE_RANGE = '([\\divxlcdm]+(?:-[\\divxlcdm]+)?)';
+
+export class KindleLocales {
+    static readonly LOCALES: KindleLocale[] = [
+        {
+            code: 'en',
+            name: 'English',
+            types: { Highlight: /Your Highlight/i, Note: /Your Note/i, Bookmark: /Your Bookmark/i },
+            location: new RegExp(`Location ${LOCATION_RANGE}`, 'i'),
+            page: new RegExp(`\\bpage ${PAGE_RANGE}`, 'i'),
+            dateAdded: /Added on (.+)$/i,
+            parseDate: raw => KindleLocales.parseMonthNameDate(raw, [
+                'january', 'february', 'march', 'april', 'may', 'june',
+                'july', 'august', 'september', 'october', 'november', 'december'
+            ])
+        },
+        {
+            code: 'de',
+            name: 'Deutsch',
+            types: { Highlight: /Ihre Markierung/i, Note: /Ihre Notiz/i, Bookmark: /Ihr Lesezeichen/i },
+            location: new RegExp(`Position ${LOCATION_RANGE}`, 'i'),
+            page: new RegExp(`Seite ${PAGE_RANGE}`, 'i'),
+            dateAdded: /Hinzugefügt am (.+)$/i,
+            parseDate: raw => KindleLocales.parseMonthNameDate(raw, [
+                'januar', 'februar', 'märz', 'april', 'mai', 'juni',
+                'juli', 'august', 'september', 'oktober', 'november', 'dezember'
+            ], { 'jänner': 0 })
+        },
+        {
+            code: 'fr',
+            name: 'Français',
+            types: { Highlight: /Votre surlignement/i, Note: /Votre note/i, Bookmark: /Votre signet/i },
+            location: new RegExp(`emplacement ${LOCATION_RANGE}`, 'i'),
+            page: new RegExp(`\\bpage ${PAGE_RANGE}`, 'i'),
+            dateAdded: /Ajouté le (.+)$/i,
+            parseDate: raw => KindleLocales.parseMonthNameDate(raw, [
+                'janvier', 'février', 'mars', 'avril', 'mai', 'juin',
+                'juillet', 'août', 'septembre', 'octobre', 'novembre', 'décembre'
+            ])
+        },
+        {
+            code: 'es',
+            name: 'Español',
+            types: { Highlight: /\b(?:Tu|La) subrayado/i, Note: /\bTu nota/i, Bookmark: /\bTu marcador/i },
+            location: new RegExp(`posición ${LOCATION_RANGE}`, 'i'),
+            page: new RegExp(`página ${PAGE_RANGE}`, 'i'),
+            dateAdded: /Añadido el (.+)$/i,
+            parseDate: raw => KindleLocales.parseMonthNameDate(raw, [
+                'enero', 'febrero', 'marzo', 'abril', 'mayo', 'junio',
+                'julio', 'agosto', 'septiembre', 'octubre', 'noviembre', 'diciembre'
+            ], { 'setiembre': 8 })
+        },
+        {
+            code: 'it',
+            name: 'Italiano',
+            types: { Highlight: /La tua evidenziazione/i, Note: /La tua nota/i, Bookmark: /Il tuo segnalibro/i },
+            location: new RegExp(`posizione ${LOCATION_RANGE}`, 'i'),
+            page: new RegExp(`pagina ${PAGE_RANGE}`, 'i'),
+            dateAdded: /Aggiunt[oa] (?:in data|il) (.+)$/i,
+            parseDate: raw => KindleLocales.parseMonthNameDate(raw, [
+                'gennaio', 'febbraio', 'marzo', 'aprile', 'maggio', 'giugno',
+                'luglio', 'agosto', 'settembre', 'ottobre', 'novembre', 'dicembre'
+            ])
+        },
+        {
+            code: 'pt',
+            name: 'Português',
+            types: { Highlight: /Seu destaque/i, Note: /Sua nota/i, Bookmark: /Seu marcador/i },
+            location: new RegExp(`posição ${LOCATION_RANGE}`, 'i'),
+            page: new RegExp(`página ${PAGE_RANGE}`, 'i'),
+            dateAdded: /Adicionado:?\s*(?:em\s+)?(.+)$/i,
+            parseDate: raw => KindleLocales.parseMonthNameDate(raw, [
+                'janeiro', 'fevereiro', 'março', 'abril', 'maio', 'junho',
+                'julho', 'agosto', 'setembro', 'outubro', 'novembro', 'dezembro'
+            ])
+        },
+        {
+            code: 'ja',
+            name: '日本語',
+            types: { Highlight: /のハイライト/, Note: /のメモ/, Bookmark: /のブックマーク/ },
+            location: new RegExp(`位置No\\.\\s*${LOCATION_RANGE}`),
+            page: /(\d+(?:-\d+)?)ページ/,
+            dateAdded: /作成日:\s*(.+)$/,
+            parseDate: raw => KindleLocales.parseCjkDate(raw)
+        },
+        {
+            code: 'zh',
+            name: '中文',
+            types: { Highlight: /的标注/, Note: /的笔记/, Bookmark: /的书签/ },
+            location: new RegExp(`位置\\s*#?${LOCATION_RANGE}`),
+            page: /第\s*(\d+(?:-\d+)?)\s*页/,
+            dateAdded: /添加于\s*(.+)$/,
+            parseDate: raw => KindleLocales.parseCjkDate(raw)
+        }
+    ];
+
+    /**
+     * Parse a metadata line, detecting its language by which locale recognises the most parts
+     */
+    static parseMetadata(line: string): LocalizedMetadata {
+        let best: { locale: KindleLocale; score: number } | null = null;
+
+        for (const locale of this.LOCALES) {
+            let score = 0;
+            if (this.findType(locale, line)) score += 2;
+            if (locale.location.test(line)) score++;
+            if (locale.page.test(line)) score++;
+            if (locale.dateAdded.test(line)) score++;
+
+            if (score > 0 && (!best || score > best.score)) {
+                best = { locale, score };
+            }
+        }
+
+        if (!best) {
+            return { language: 'unknown', type: 'Unknown', location: 'Unknown', page: null, date: 'Unknown', dateAdded: null };
+        }
+
+        const { locale } = best;
+        const locationMatch = line.match(locale.location);
+        const pageMatch = line.match(locale.page);
+        const dateMatch = line.match(locale.dateAdded);
+        const date = dateMatch ? dateMatch[1].trim() : 'Unknown';
+
+        return {
+            language: locale.code,
+            type: this.findType(locale, line) || 'Unknown',
+            location: locationMatch ? locationMatch[1] : 'Unknown',
+            page: pageMatch ? pageMatch[1] : null,
+            date,
+            dateAdded: dateMatch ? locale.parseDate(date) : null
+        };
+    }
+
+    private static findType(locale: KindleLocale, line: string): ClippingType | null {
+        for (const type of Object.keys(locale.types) as ClippingType[]) {
+            if (locale.types[type].test(line)) {
+                return type;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Parse dates written with month names in any order, e.g. "Monday, January 1, 2024 12:00:00 PM",
+     * "Montag, 1. Januar 2024 12:00:00" or "lunes, 1 de enero de 2024 12:00:00"
+     */
+    private static parseMonthNameDate(raw: string, months: string[], aliases: Record<string, number> = {}): Date | null {
+        const time = this.parseTime(raw);
+        const rest = time ? raw.replace(time.text, ' ') : raw;
+        const words = rest.toLowerCase().split(/[\s,.]+/).filter(word => word.length > 0);
+
+        let month = -1;
+        let day: number | null = null;
+        let year: number | null = null;
+
+        for (const word of words) {
+            if (month === -1) {
+                const index = months.indexOf(word);
+                if (index !== -1) {
+                    month = index;
+                    continue;
+                }
+                if (word in aliases) {
+                    month = aliases[word];
+                    continue;
+                }
+            }
+            if (year === null && /^\d{4}$/.test(word)) {
+                year = parseInt(word, 10);
+                continue;
+            }
+            const dayMatch = word.match(/^(\d{1,2})(?:er|º|°)?$/);
+            if (day === null && dayMatch) {
+                day = parseInt(dayMatch[1], 10);
+            }
+        }
+
+        if (month === -1 || day === null || year === null) {
+            return null;
+        }
+
+        return this.buildDate(year, month, day, time);
+    }
+
+    /**
+     * Parse Japanese and Chinese dates, e.g. "2024年1月1日 月曜日 12:00:00" or "2024年1月1日星期一 下午12:00:00"
+     */
+    private static parseCjkDate(raw: string): Date | null {
+        const match = raw.match(/(\d{4})年(\d{1,2})月(\d{1,2})日/);
+        if (!match) {
+            return null;
+        }
+
+        return this.buildDate(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10), this.parseTime(raw));
+    }
+
+    private static parseTime(raw: string): ParsedTime | null {
+        const match = raw.match(/(上午|下午|午前|午後)?\s*(\d{1,2}):(\d{2})(?::(\d{2}))?(?:\s*([ap])\.?\s*m\.?)?/i);
+        if (!match) {
+            return null;
+        }
+
+        let hours = parseInt(match[2], 10);
+        const cjkPeriod = match[1];
+        const latinPeriod = match[5] ? match[5].toLowerCase() : null;
+        const isPm = cjkPeriod === '下午' || cjkPeriod === '午後' || latinPeriod === 'p';
+        const isAm = cjkPeriod === '上午' || cjkPeriod === '午前' || latinPeriod === 'a';
+
+        if (isPm && hours < 12) hours += 12;
+        if (isAm && hours === 12) hours = 0;
+
+        return {
+            text: match[0],
+            hours,
+            minutes: parseInt(match[3], 10),
+            seconds: match[4] ? parseInt(match[4], 10) : 0
+        };
+    }
+
+    private static buildDate(year: number, month: number, day: number, time: ParsedTime | null): Date | null {
+        const date = new Date(year, month, day, time?.hours || 0, time?.minutes || 0, time?.seconds || 0);
+        return isNaN(date.getTime()) ? null : date;
+    }
+}
@@ -1,86 +1,534 @@
-import { KindleClipping } from './types';
+import { KindleClipping, DuplicateGroup, ClippingsParseResult, ParseDiagnosticReason } from './types';
+import { KindleLocales } from './kindle-locales';
+
+// What a single entry of My Clippings.txt turned out to be, and what was wrong with it
+interface ParsedSection {
+    kind: 'clipping' | 'bookmark' | 'skipped';
+    clipping?: KindleClipping; // Missing when the entry has no readable header
+    problems: { reason: ParseDiagnosticReason; message: string }[];
+}
+
+// A parse in progress: the result so far and the position in the file
+interface ParseState {
+    result: ClippingsParseResult;
+    line: number;
+    offset: number;
+    encoder: TextEncoder;
+    isIgnored?: (clipping: KindleClipping) => boolean;
+}
+
+export interface ChunkedParseOptions {
+    start: number;            // Byte offset to start at, e.g. where the last sync stopped
+    end: number;              // Byte offset to stop at, usually the file size
+    line?: number;            // Line number at `start` (1 for the start of the file)
+    chunkSize?: number;
+    isIgnored?: (clipping: KindleClipping) => boolean;
+    onProgress?: (parsed: number, total: number) => void; // Bytes parsed so far, out of end - start
+}
 
 export class KindleParser {
-    static parseClippings(content: string): KindleClipping[] {
-        const clippings: KindleClipping[] = [];
-        const sections = content.split('==========');
-
-        for (const section of sections) {
-            const clipping = this.parseSection(section);
-            if (clipping) {
-                clippings.push(clipping);
+    private static readonly SEPARATOR = '==========';
+    static readonly CHUNK_SIZE = 512 * 1024;
+
+    // Text the Kindle stores instead of the highlight once the publisher's export limit is reached
+    private static readonly CLIP_LIMIT_REGEX = /^<?\s*You have reached the clipping limit for this item\.?\s*>?$/i;
+
+    // Raw text kept per diagnostic, so a long malformed entry doesn't bloat the sync report
+    private static readonly MAX_RAW_LENGTH = 2000;
+
+    /**
+     * Parse a byte range of My Clippings.txt into highlights and notes, bookmarks, and a diagnostic
+     * for every entry that was skipped or only partly understood, with its line, byte offset and
+     * raw text. Entries for which `isIgnored` returns true (e.g. books on the ignore list) are
+     * dropped before notes are paired with highlights, and only counted.
+     *
+     * The range is read a chunk at a time: only the text after the last complete separator is kept
+     * between chunks, and the UI gets a turn after each chunk, so files of tens of megabytes don't
+     * freeze it. Offsets and line numbers are absolute, so a parse can resume where an earlier one stopped.
+     */
+    static async parseChunked(read: (start: number, end: number) => Promise<Uint8Array>, options: ChunkedParseOptions): Promise<ClippingsParseResult> {
+        const chunkSize = options.chunkSize || this.CHUNK_SIZE;
+        const total = Math.max(0, options.end - options.start);
+        // Kindle writes a UTF-8 BOM at the start of the file, which would end up in the first title.
+        // It is decoded rather than dropped by the decoder so its bytes can be counted
+        const decoder = new TextDecoder('utf-8', { ignoreBOM: true });
+        const state = this.createState(options.start, options.line || 1, options.isIgnored);
+
+        let buffer = '';
+        let position = options.start;
+        while (position < options.end) {
+            const bytes = await read(position, Math.min(options.end, position + chunkSize));
+            if (bytes.length === 0) {
+                break;
+            }
+
+            buffer += decoder.decode(bytes, { stream: true });
+            if (position === 0 && buffer.startsWith('\uFEFF')) {
+                buffer = buffer.substring(1);
+                state.offset += 3;
+            }
+            position += bytes.length;
+
+            const sections = buffer.split(this.SEPARATOR);
+            buffer = sections.pop()!;
+            sections.forEach(section => this.parseInto(state, section, true));
+
+            options.onProgress?.(position - options.start, total);
+            await new Promise(resolve => setTimeout(resolve, 0));
+        }
+
+        // Whatever follows the last separator: usually just a line break
+        this.parseInto(state, buffer + decoder.decode(), false);
+        return this.finish(state);
+    }
+
+    private static createState(offset: number, line: number, isIgnored?: (clipping: KindleClipping) => boolean): ParseState {
+        return {
+            result: { clippings: [], bookmarks: [], diagnostics: [], entries: 0, ignored: 0, separators: 0, endOffset: offset, endLine: line },
+            line,
+            offset,
+            encoder: new TextEncoder(),
+            isIgnored
+        };
+    }
+
+    /**
+     * Parse one section and advance the position past it, and past its separator when it had one
+     */
+    private static parseInto(state: ParseState, section: string, separated: boolean) {
+        const { result, encoder } = state;
+        const leading = section.match(/^\s*/)![0];
+        const entryLine = state.line + (leading.match(/\n/g) || []).length;
+        const entryOffset = state.offset + encoder.encode(leading).length;
+        state.line += (section.match(/\n/g) || []).length;
+        state.offset += encoder.encode(section).length;
+        if (separated) {
+            state.offset += this.SEPARATOR.length;
+            result.separators++;
+        }
+
+        const entry = this.parseSection(section);
+        if (!entry) {
+            return;
+        }
+
+        result.entries++;
+        if (entry.clipping && state.isIgnored && state.isIgnored(entry.clipping)) {
+            result.ignored++;
+            return;
+        }
+
+        const raw = section.trim();
+        entry.problems.forEach(problem => result.diagnostics.push({
+            ...problem,
+            line: entryLine,
+            offset: entryOffset,
+            raw: raw.length > this.MAX_RAW_LENGTH ? `${raw.substring(0, this.MAX_RAW_LENGTH)}…` : raw,
+            skipped: entry.kind === 'skipped',
+            title: entry.clipping?.title,
+            location: entry.clipping && entry.clipping.location !== 'Unknown' ? entry.clipping.location : undefined
+        }));
+
+        if (entry.kind === 'bookmark') {
+            result.bookmarks.push(entry.clipping!);
+        } else if (entry.kind === 'clipping') {
+            result.clippings.push(entry.clipping!);
+        }
+    }
+
+    private static finish(state: ParseState): ClippingsParseResult {
+        return {
+            ...state.result,
+            clippings: this.attachNotes(state.result.clippings),
+            endOffset: state.offset,
+            endLine: state.line
+        };
+    }
+
+    /**
+     * Pair each "Your Note" clipping with the highlight it annotates.
+     * The Kindle stores a note at the end location of its highlight, so a note belongs to the
+     * highlight in the same book whose location range contains it. When several highlights
+     * qualify, the latest one in the file wins. Notes without a match stay standalone.
+     */
+    static attachNotes(clippings: KindleClipping[]): KindleClipping[] {
+        const merged = clippings.map(clipping => ({ ...clipping }));
+        const consumed = new Set<number>();
+
+        merged.forEach((note, noteIndex) => {
+            if (note.type.toLowerCase() !== 'note') return;
+
+            if (note.locationStart === undefined) return;
+
+            for (let i = merged.length - 1; i >= 0; i--) {
+                const highlight = merged[i];
+                if (highlight.type.toLowerCase() !== 'highlight') continue;
+                if (highlight.title !== note.title || highlight.author !== note.author) continue;
+
+                if (highlight.locationStart === undefined || highlight.locationEnd === undefined) continue;
+                if (note.locationStart < highlight.locationStart || note.locationStart > highlight.locationEnd) continue;
+
+                highlight.note = highlight.note ? `${highlight.note}\n\n${note.content}` : note.content;
+                consumed.add(noteIndex);
+                return;
+            }
+        });
+
+        return merged.filter((_, index) => !consumed.has(index));
+    }
+
+    /**
+     * Find clippings that are re-highlights of the same passage: same book and type,
+     * overlapping location ranges, and text that contains the other or is near-identical.
+     * Clippings of a book are swept in location order, and each group only holds clippings
+     * that duplicate its first one, so a chain of overlaps never merges distinct passages.
+     * Each group keeps the most recent clipping by date (later in the file on ties).
+     */
+    static findDuplicates(clippings: KindleClipping[]): DuplicateGroup[] {
+        const byBook = new Map<string, { index: number; clipping: KindleClipping; text: string }[]>();
+        clippings.forEach((clipping, index) => {
+            if (clipping.locationStart === undefined || clipping.locationEnd === undefined) return;
+            const text = this.normalizeForComparison(clipping.content);
+            if (!text) return;
+
+            const bookKey = `${clipping.title}|${clipping.author}|${clipping.type}`.toLowerCase();
+            if (!byBook.has(bookKey)) byBook.set(bookKey, []);
+            byBook.get(bookKey)!.push({ index, clipping, text });
+        });
+
+        const groups: DuplicateGroup[] = [];
+        for (const entries of byBook.values()) {
+            entries.sort((a, b) => a.clipping.locationStart! - b.clipping.locationStart! || a.index - b.index);
+            const grouped = new Set<number>();
+
+            for (let a = 0; a < entries.length; a++) {
+                if (grouped.has(a)) continue;
+                const first = entries[a];
+                const members = [first];
+
+                // Later entries start at or after this one, so stop at the first that starts past its end
+                for (let b = a + 1; b < entries.length && entries[b].clipping.locationStart! <= first.clipping.locationEnd!; b++) {
+                    if (!grouped.has(b) && this.isDuplicateText(first.text, entries[b].text)) {
+                        grouped.add(b);
+                        members.push(entries[b]);
+                    }
+                }
+                if (members.length < 2) continue;
+
+                members.sort((x, y) => x.index - y.index);
+                const kept = members.reduce((best, member) =>
+                    this.getTimestamp(member.clipping) >= this.getTimestamp(best.clipping) ? member : best
+                );
+                groups.push({
+                    kept: kept.clipping,
+                    duplicates: members.filter(member => member !== kept).map(member => member.clipping)
+                });
+            }
+        }
+
+        return groups;
+    }
+
+    /**
+     * Whether any of `added` could be a re-highlight of one of `existing`: same book title and
+     * type, with overlapping location ranges. Text is not compared, so cards whose text has gone
+     * through a template can stand in for the clippings they were made from.
+     */
+    static mayDuplicate(added: KindleClipping[], existing: KindleClipping[]): boolean {
+        const bookKey = (clipping: KindleClipping) => `${clipping.title}|${clipping.type}`.toLowerCase();
+        const ranges = this.getRangesBy(existing, bookKey);
+
+        return added.some(clipping => clipping.locationStart !== undefined && clipping.locationEnd !== undefined
+            && (ranges.get(bookKey(clipping)) || []).some(range =>
+                range.start <= clipping.locationEnd! && clipping.locationStart! <= range.end));
+    }
+
+    /**
+     * Whether any note in `added` could belong to one of `existing`, which attachNotes would pair
+     * it with: same book title, at a location inside its range. Any type counts, since the card
+     * an earlier highlight became is all that is left of it.
+     */
+    static mayAnnotate(added: KindleClipping[], existing: KindleClipping[]): boolean {
+        const bookKey = (clipping: KindleClipping) => clipping.title.toLowerCase();
+        const ranges = this.getRangesBy(existing, bookKey);
+
+        return added.some(clipping => clipping.type.toLowerCase() === 'note' && clipping.locationStart !== undefined
+            && (ranges.get(bookKey(clipping)) || []).some(range =>
+                range.start <= clipping.locationStart! && clipping.locationStart! <= range.end));
+    }
+
+    private static getRangesBy(clippings: KindleClipping[], getKey: (clipping: KindleClipping) => string): Map<string, { start: number; end: number }[]> {
+        const ranges = new Map<string, { start: number; end: number }[]>();
+        clippings.forEach(clipping => {
+            if (clipping.locationStart === undefined || clipping.locationEnd === undefined) return;
+            const key = getKey(clipping);
+            if (!ranges.has(key)) ranges.set(key, []);
+            ranges.get(key)!.push({ start: clipping.locationStart, end: clipping.locationEnd });
+        });
+        return ranges;
+    }
+
+    /**
+     * Drop the duplicates of the given groups. A note on a dropped clipping carries over
+     * to the kept one if it has none of its own.
+     */
+    static removeDuplicates(clippings: KindleClipping[], groups: DuplicateGroup[]): KindleClipping[] {
+        const dropped = new Set<KindleClipping>();
+        const notes = new Map<KindleClipping, string>();
+
+        for (const group of groups) {
+            group.duplicates.forEach(duplicate => dropped.add(duplicate));
+            const inheritedNote = group.duplicates.find(duplicate => duplicate.note)?.note;
+            if (!group.kept.note && inheritedNote) {
+                notes.set(group.kept, inheritedNote);
             }
         }
 
-        return clippings;
+        return clippings
+            .filter(clipping => !dropped.has(clipping))
+            .map(clipping => notes.has(clipping) ? { ...clipping, note: notes.get(clipping) } : clipping);
     }
 
-    private static parseSection(section: string): KindleClipping | null {
+    private static isDuplicateText(textA: string, textB: string): boolean {
+        if (textA.includes(textB) || textB.includes(textA)) return true;
+        return this.similarity(textA, textB) >= this.DUPLICATE_SIMILARITY;
+    }
+
+    // Minimum bigram similarity for two overlapping clippings to count as the same passage
+    private static readonly DUPLICATE_SIMILARITY = 0.9;
+
+    private static normalizeForComparison(text: string): string {
+        return text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, '').replace(/\s+/g, ' ').trim();
+    }
+
+    /**
+     * Dice coefficient over character bigrams (1 = identical)
+     */
+    private static similarity(a: string, b: string): number {
+        if (a === b) return 1;
+        if (a.length < 2 || b.length < 2) return 0;
+
+        const bigrams = new Map<string, number>();
+        for (let i = 0; i < a.length - 1; i++) {
+            const bigram = a.substr(i, 2);
+            bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+        }
+
+        let shared = 0;
+        for (let i = 0; i < b.length - 1; i++) {
+            const bigram = b.substr(i, 2);
+            const count = bigrams.get(bigram) || 0;
+            if (count > 0) {
+                bigrams.set(bigram, count - 1);
+                shared++;
+            }
+        }
+
+        return (2 * shared) / (a.length + b.length - 2);
+    }
+
+    private static getTimestamp(clipping: KindleClipping): number {
+        return clipping.dateAdded ? clipping.dateAdded.getTime() : 0;
+    }
+
+    /**
+     * Reading-order comparator: by location, then page, then date added
+     */
+    static compareByPosition(a: KindleClipping, b: KindleClipping): number {
+        const locationA = a.locationStart ?? Number.MAX_SAFE_INTEGER;
+        const locationB = b.locationStart ?? Number.MAX_SAFE_INTEGER;
+        if (locationA !== locationB) return locationA - locationB;
+
+        const pageA = a.page ? parseInt(a.page, 10) : NaN;
+        const pageB = b.page ? parseInt(b.page, 10) : NaN;
+        if (!isNaN(pageA) && !isNaN(pageB) && pageA !== pageB) return pageA - pageB;
+
+        return (a.dateAdded?.getTime() || 0) - (b.dateAdded?.getTime() || 0);
+    }
+
+    static parseLocationRange(location: string): { start: number; end: number } | null {
+        const match = (location || '').match(/^(\d+)(?:-(\d+))?$/);
+        if (!match) return null;
+
+        const start = parseInt(match[1], 10);
+        let end = match[2] ? parseInt(match[2], 10) : start;
+
+        // Kindle abbreviates ranges like "1234-37" to the changed digits
+        if (match[2] && end < start) {
+            const prefix = match[1].slice(0, match[1].length - match[2].length);
+            end = parseInt(prefix + match[2], 10);
+        }
+
+        return { start, end: Math.max(start, end) };
+    }
+
+    /**
+     * Parse one entry. Entries whose header or text is missing are skipped; entries whose
+     * metadata can't be fully read are kept with what could be read. Both report the problem.
+     */
+    private static parseSection(section: string): ParsedSection | null {
         const lines = section.trim().split('\n').filter(line => line.trim());
 
-        if (lines.length < 3) {
+        // Nothing but whitespace, e.g. after the final separator
+        if (lines.length === 0) {
             return null;
         }
 
+        if (this.isMetadataLine(lines[0])) {
+            return {
+                kind: 'skipped',
+                problems: [{ reason: 'missing-header', message: 'The entry has no title and author line' }]
+            };
+        }
+        if (lines.length < 2) {
+            return {
+                kind: 'skipped',
+                problems: [{ reason: 'unparseable-metadata', message: 'The entry has no metadata line after its title' }]
+            };
+        }
+
         const titleAuthorLine = lines[0];
         const metadataLine = lines[1];
         const contentLines = lines.slice(2); // Content starts at index 2
 
         // Parse title and author
-        const { title, author } = this.parseTitleAndAuthor(titleAuthorLine);
+        const { title, author, authors } = this.parseTitleAndAuthor(titleAuthorLine);
 
         // Parse metadata
         const metadata = this.parseMetadata(metadataLine);
 
         const content = contentLines.join('\n').trim();
+        const range = this.parseLocationRange(metadata.location);
 
-        if (!content) {
-            return null;
-        }
-
-        return {
+        const clipping: KindleClipping = {
             title,
             author,
+            authors,
             type: metadata.type,
             location: metadata.location,
+            page: metadata.page || undefined,
+            locationStart: range?.start,
+            locationEnd: range?.end,
             date: metadata.date,
+            dateAdded: metadata.dateAdded || undefined,
+            language: metadata.language,
             content
         };
+
+        const problems: ParsedSection['problems'] = [];
+        if (metadata.language === 'unknown') {
+            problems.push({ reason: 'unknown-language', message: `The metadata line isn't in a supported Kindle language: "${metadataLine.trim()}"` });
+        } else if (metadata.type === 'Unknown' || (metadata.location === 'Unknown' && !metadata.page)) {
+            problems.push({ reason: 'unparseable-metadata', message: `The clipping type or location couldn't be read from "${metadataLine.trim()}"` });
+        }
+
+        if (metadata.type === 'Bookmark') {
+            return { kind: 'bookmark', clipping, problems };
+        }
+        if (!content) {
+            problems.push({ reason: 'empty-content', message: 'The entry has no text' });
+            return { kind: 'skipped', clipping, problems };
+        }
+        if (this.CLIP_LIMIT_REGEX.test(content)) {
+            problems.push({ reason: 'clip-limit', message: 'The publisher\'s clipping limit was reached, so the Kindle saved no text' });
+            return { kind: 'skipped', clipping, problems };
+        }
+
+        return { kind: 'clipping', clipping, problems };
     }
 
-    private static parseTitleAndAuthor(line: string): { title: string; author: string } {
-        // Format: "Title (Author)" or just "Title"
-        const match = line.match(/^(.+?)\s*\((.+?)\)\s*$/);
+    /**
+     * A line that reads as clipping metadata ("- Your Highlight on …") rather than a book header
+     */
+    private static isMetadataLine(line: string): boolean {
+        return /^\s*-/.test(line) && this.parseMetadata(line).language !== 'unknown';
+    }
 
-        if (match) {
-            return {
-                title: match[1].trim(),
-                author: match[2].trim()
-            };
+    /**
+     * Parse a header line such as "Meditations (Penguin Classics) (Marcus Aurelius)".
+     * The author is the last parenthesised group; anything before it, including other
+     * parentheses, is the title.
+     */
+    static parseTitleAndAuthor(line: string): { title: string; author: string; authors: string[] } {
+        const header = line.replace(/\uFEFF/g, '').trim();
+        const authorGroup = this.findLastParenthesizedGroup(header);
+
+        if (authorGroup) {
+            const title = header.slice(0, authorGroup.start).trim();
+            const author = header.slice(authorGroup.start + 1, header.length - 1).trim();
+
+            if (title && author) {
+                return { title, author, authors: this.normalizeAuthors(author) };
+            }
         }
 
         return {
-            title: line.trim(),
-            author: 'Unknown Author'
+            title: header,
+            author: 'Unknown Author',
+            authors: []
         };
     }
 
-    private static parseMetadata(line: string): { type: string; location: string; date: string } {
-        // Format: "- Your Highlight on Location 123-456 | Added on Monday, January 1, 2024 12:00:00 PM"
+    /**
+     * Locate the balanced "(...)" group that ends the line, if any
+     */
+    private static findLastParenthesizedGroup(text: string): { start: number } | null {
+        if (!text.endsWith(')')) return null;
+
+        let depth = 0;
+        for (let i = text.length - 1; i >= 0; i--) {
+            if (text[i] === ')') depth++;
+            if (text[i] === '(') {
+                depth--;
+                if (depth === 0) return { start: i };
+            }
+        }
 
-        const typeMatch = line.match(/- Your (Highlight|Note|Bookmark)/i);
-        const locationMatch = line.match(/Location (\d+(?:-\d+)?)/i);
-        const dateMatch = line.match(/Added on (.+)$/i);
+        return null;
+    }
 
-        return {
-            type: typeMatch ? typeMatch[1] : 'Unknown',
-            location: locationMatch ? locationMatch[1] : 'Unknown',
-            date: dateMatch ? dateMatch[1].trim() : 'Unknown'
-        };
+    /**
+     * Turn a Kindle author field into a list of "First Last" names.
+     * Handles "Kahneman, Daniel", "Fisher, Roger;Ury, William" and "Roger Fisher, William Ury".
+     */
+    static normalizeAuthors(author: string): string[] {
+        const names: string[] = [];
+
+        author.split(/\s*(?:;|&)\s*/).forEach(part => {
+            const pieces = part.trim().split(/\s*,\s*/).filter(piece => piece.length > 0);
+            if (pieces.length === 2 && this.isInvertedName(pieces[0], pieces[1])) {
+                pieces.splice(0, 2, `${pieces[1]} ${pieces[0]}`);
+            }
+            pieces.forEach(name => {
+                if (!names.includes(name)) names.push(name);
+            });
+        });
+
+        return names;
+    }
+
+    /**
+     * "Last, First" rather than two authors: the last name is a single word, or the
+     * given names are short (e.g. "García Márquez, Gabriel", "Tolkien, J. R. R.")
+     */
+    private static isInvertedName(first: string, second: string): boolean {
+        const firstWords = first.split(/\s+/).length;
+        const secondWords = second.split(/\s+/).filter(word => !/^\p{L}\.$/u.test(word)).length;
+        return firstWords === 1 || secondWords <= 1;
+    }
+
+    private static parseMetadata(line: string): { type: string; location: string; page: string | null; date: string; dateAdded: Date | null; language: string } {
+        // Format: "- Your Highlight on Location 123-456 | Added on Monday, January 1, 2024 12:00:00 PM",
+        // or the same line in any supported Kindle UI language (detected per entry)
+        return KindleLocales.parseMetadata(line);
     }
 
-    static validateClippingsFile(content: string): { valid: boolean; message: string } {
-        if (!content || content.trim().length === 0) {
+    /**
+     * Check the result of parsing a whole clippings file. The file is not parsed again;
+     * entry-level problems are in the result's diagnostics.
+     */
+    static validateClippingsFile(parsed: ClippingsParseResult): { valid: boolean; message: string } {
+        if (parsed.endOffset === 0 || (parsed.entries === 0 && parsed.separators === 0)) {
             return {
                 valid: false,
                 message: 'File is empty'
@@ -88,20 +536,21 @@ export class KindleParser {
         }
 
         // Check if it contains the separator
-        if (!content.includes('==========')) {
+        if (parsed.separators === 0) {
             return {
                 valid: false,
                 message: 'File does not appear to be a valid My Clippings.txt file (missing separators)'
             };
         }
 
-        // Try to parse and see if we get any valid clippings
-        const clippings = this.parseClippings(content);
-
-        if (clippings.length === 0) {
+        // A file of bookmarks, or of ignored books only, still syncs
+        const { clippings, bookmarks, ignored, diagnostics } = parsed;
+        if (clippings.length === 0 && bookmarks.length === 0 && ignored === 0) {
             return {
                 valid: false,
-                message: 'No valid clippings found in file'
+                message: diagnostics.length > 0
+                    ? `No valid clippings found in file (${diagnostics.length} problems; see the last sync report)`
+                    : 'No valid clippings found in file'
             };
         }
 
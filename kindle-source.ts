@@ -0,0 +1,233 @@
+import { Platform } from 'obsidian';
+import { ContentHash, ContentHashStream } from './content-hash';
+import { ClippingsFileState } from './types';
+import { DebugLogger } from './logger';
+
+/**
+ * Byte-range access to a clippings file, so large files can be read a chunk at a time
+ */
+export interface ClippingsReader {
+    path: string | null;  // Resolved file path on disk, or null for a file chosen in the file picker
+    size: number;         // Size in bytes when the file was opened
+    modified: number;     // Modification time (ms since epoch) when the file was opened
+    read(start: number, end: number): Promise<Uint8Array>;
+}
+
+export interface ResumePosition {
+    offset: number;           // Byte offset to resume parsing at
+    line: number;             // Line number at that offset
+    hash: ContentHashStream;  // Hash of the bytes before the offset; the rest of the file is fed in while parsing
+}
+
+export interface ClippingsFileResult {
+    reader: ClippingsReader | null;
+    path: string | null;  // Resolved file path, when one was found
+    error: string | null; // Why the configured path could not be used
+}
+
+/**
+ * Reads My Clippings.txt straight from disk on desktop.
+ * `kindlePath` may point at the file itself or at a mounted Kindle (or its documents folder).
+ */
+export class KindleSource {
+    static readonly CLIPPINGS_FILE_NAMES = ['My Clippings.txt', 'My_Clippings.txt'];
+    private static readonly CLIPPINGS_FOLDERS = ['documents', 'Documents', ''];
+
+    /**
+     * Direct file access needs Node's fs, which only exists in the desktop app
+     */
+    static canReadFromDisk(): boolean {
+        return Platform.isDesktopApp;
+    }
+
+    // Bytes read at a time when hashing the part of the file parsed at the last sync
+    private static readonly HASH_CHUNK_SIZE = 1024 * 1024;
+
+    /**
+     * Open the clippings file for chunked reading. Nothing but its size is read here.
+     */
+    static async openClippingsFile(kindlePath: string): Promise<ClippingsFileResult> {
+        const resolved = await this.resolveClippingsPath(kindlePath);
+        if (!resolved.path) {
+            return { reader: null, path: null, error: resolved.error };
+        }
+
+        const path = resolved.path;
+        try {
+            const stats = await this.getFs().promises.stat(path);
+            DebugLogger.log('Opened clippings file', path, 'size:', stats.size);
+            return {
+                reader: {
+                    path,
+                    size: stats.size,
+                    modified: stats.mtimeMs,
+                    read: (start, end) => this.readRange(path, start, end)
+                },
+                path,
+                error: null
+            };
+        } catch (error) {
+            DebugLogger.error('Error opening clippings file:', error);
+            return { reader: null, path, error: this.describeError(error, path) };
+        }
+    }
+
+    /**
+     * Reader for a file chosen in the file picker, which works on mobile too
+     */
+    static fromFile(file: File): ClippingsReader {
+        return {
+            path: null,
+            size: file.size,
+            modified: file.lastModified,
+            read: (start, end) => new Promise((resolve, reject) => {
+                const reader = new FileReader();
+                reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+                reader.onerror = () => reject(reader.error);
+                reader.readAsArrayBuffer(file.slice(start, end));
+            })
+        };
+    }
+
+    /**
+     * Where to resume parsing a file that was synced before: after the entries parsed then, if it is
+     * the same file and every byte before that point is unchanged, i.e. it was only appended to.
+     * Null means the whole file has to be parsed.
+     */
+    static async findResumePosition(reader: ClippingsReader, state: ClippingsFileState | null): Promise<ResumePosition | null> {
+        if (!reader.path || !state || state.path !== reader.path || state.parsedOffset === undefined || reader.size < state.parsedOffset) {
+            return null;
+        }
+
+        const hash = ContentHash.createStream();
+        await this.hashPrefix(reader, state.parsedOffset, hash);
+        return hash.digest() === state.hash ? { offset: state.parsedOffset, line: state.parsedLines || 1, hash } : null;
+    }
+
+    /**
+     * Feed the first `offset` bytes of the file into `hash`, a chunk at a time. An edit or deletion
+     * anywhere before `offset` changes the hash, so comparing it with the one stored at the last
+     * sync tells whether the file was only appended to.
+     */
+    static async hashPrefix(reader: ClippingsReader, offset: number, hash: ContentHashStream): Promise<void> {
+        let position = 0;
+        while (position < offset) {
+            const bytes = await reader.read(position, Math.min(offset, position + this.HASH_CHUNK_SIZE));
+            if (bytes.length === 0) {
+                break;
+            }
+            hash.update(bytes);
+            position += bytes.length;
+            await new Promise(resolve => setTimeout(resolve, 0));
+        }
+    }
+
+    private static async readRange(path: string, start: number, end: number): Promise<Uint8Array> {
+        const handle = await this.getFs().promises.open(path, 'r');
+        try {
+            const buffer = new Uint8Array(Math.max(0, end - start));
+            const { bytesRead } = await handle.read(buffer, 0, buffer.length, start);
+            return buffer.subarray(0, bytesRead);
+        } finally {
+            await handle.close();
+        }
+    }
+
+    /**
+     * Size and modification time of the clippings file, or null when it can't be found
+     */
+    static async getFileStats(kindlePath: string): Promise<{ path: string; size: number; modified: number } | null> {
+        const resolved = await this.resolveClippingsPath(kindlePath);
+        if (!resolved.path) {
+            return null;
+        }
+
+        try {
+            const stats = await this.getFs().promises.stat(resolved.path);
+            return { path: resolved.path, size: stats.size, modified: stats.mtimeMs };
+        } catch (error) {
+            return null;
+        }
+    }
+
+    /**
+     * Find the clippings file for a configured path without reading it
+     */
+    static async resolveClippingsPath(kindlePath: string): Promise<{ path: string | null; error: string | null }> {
+        if (!this.canReadFromDisk()) {
+            return { path: null, error: 'reading files outside the vault is only supported in the desktop app' };
+        }
+
+        const target = this.expandHome(kindlePath.trim());
+        if (!target) {
+            return { path: null, error: 'no Kindle path is set' };
+        }
+
+        const fs = this.getFs();
+        let stats;
+        try {
+            stats = await fs.promises.stat(target);
+        } catch (error) {
+            return { path: null, error: this.describeError(error, target) };
+        }
+
+        if (stats.isFile()) {
+            return { path: target, error: null };
+        }
+
+        if (!stats.isDirectory()) {
+            return { path: null, error: `${target} is neither a file nor a folder` };
+        }
+
+        const path = this.getPath();
+        for (const folder of this.CLIPPINGS_FOLDERS) {
+            for (const fileName of this.CLIPPINGS_FILE_NAMES) {
+                const candidate = path.join(target, folder, fileName);
+                try {
+                    if ((await fs.promises.stat(candidate)).isFile()) {
+                        return { path: candidate, error: null };
+                    }
+                } catch (error) {
+                    // Not this candidate, try the next one
+                }
+            }
+        }
+
+        return { path: null, error: `no My Clippings.txt found in ${target} or its documents folder` };
+    }
+
+    private static expandHome(target: string): string {
+        if (target === '~' || target.startsWith('~/') || target.startsWith('~\\')) {
+            return this.getPath().join(this.getOs().homedir(), target.slice(1));
+        }
+        return target;
+    }
+
+    private static describeError(error: unknown, target: string): string {
+        const code = error instanceof Error ? (error as NodeJS.ErrnoException).code : undefined;
+        switch (code) {
+            case 'ENOENT':
+                return `${target} does not exist (is the Kindle connected?)`;
+            case 'EACCES':
+            case 'EPERM':
+                return `permission denied for ${target}`;
+            case 'EISDIR':
+                return `${target} is a folder, not a file`;
+            default:
+                return error instanceof Error ? error.message : String(error);
+        }
+    }
+
+    // Node modules are loaded lazily so the plugin still loads on mobile
+    private static getFs(): typeof import('fs') {
+        return require('fs');
+    }
+
+    private static getPath(): typeof import('path') {
+        return require('path');
+    }
+
+    private static getOs(): typeof import('os') {
+        return require('os');
+    }
+}
@@ -0,0 +1,209 @@
+import { App, TFile, moment, normalizePath } from 'obsidian';
+import { BookMetadataStore } from './book-metadata';
+import { FlashcardGenerator } from './flashcard-generator';
+import { KindleParser } from './kindle-parser';
+import { SpacedRepetitionSystem } from './spaced-repetition';
+import { SyncEngine } from './sync-engine';
+import { BookMetadata, KindleClipping, KindleCardsSettings } from './types';
+import { VaultFolders } from './vault-folders';
+import { DebugLogger } from './logger';
+
+interface BookEntry {
+    metadata: BookMetadata;
+    cards: KindleClipping[];
+}
+
+/**
+ * Generates a library index note listing every book, and an index note per book linking
+ * to its cards in reading order.
+ *
+ * Only the part of each note between the generated-section markers is rewritten,
+ * so anything the user writes around it survives regeneration.
+ */
+export class LibraryIndex {
+    // Frontmatter field marking generated index notes, so they are never mistaken for cards
+    static readonly INDEX_FIELD = 'kindlecards-index';
+    static readonly LIBRARY_NOTE_NAME = 'Library';
+    static readonly BOOK_NOTE_SUFFIX = ' - Index.md';
+
+    private static readonly SECTION_START = '<!-- kindlecards:start (generated, edits between these markers are overwritten) -->';
+    private static readonly SECTION_END = '<!-- kindlecards:end -->';
+    private static readonly SECTION_REGEX = /<!-- kindlecards:start[^>]*-->[\s\S]*?<!-- kindlecards:end -->/;
+
+    private app: App;
+    private settings: KindleCardsSettings;
+    private spacedRepetition: SpacedRepetitionSystem;
+
+    constructor(app: App, settings: KindleCardsSettings, spacedRepetition: SpacedRepetitionSystem) {
+        this.app = app;
+        this.settings = settings;
+        this.spacedRepetition = spacedRepetition;
+    }
+
+    /**
+     * Whether a file is a generated index note. Notes in the output folder are also recognised by
+     * name, since a note that was just written has no metadata cache entry yet.
+     */
+    static isIndexNote(app: App, file: TFile, settings: KindleCardsSettings): boolean {
+        if (app.metadataCache.getFileCache(file)?.frontmatter?.[this.INDEX_FIELD]) {
+            return true;
+        }
+
+        const outputFolder = normalizePath(settings.outputFolder);
+        return file.path === this.getLibraryNotePath(settings)
+            || (file.path.startsWith(`${outputFolder}/`) && file.name.endsWith(this.BOOK_NOTE_SUFFIX));
+    }
+
+    static getLibraryNotePath(settings: KindleCardsSettings): string {
+        return normalizePath(`${settings.outputFolder}/${this.LIBRARY_NOTE_NAME}.md`);
+    }
+
+    static getBookNotePath(book: Pick<KindleClipping, 'title' | 'author' | 'authors'>, settings: KindleCardsSettings): string {
+        const folder = SyncEngine.getCardFolder(book, settings);
+        return normalizePath(`${folder}/${FlashcardGenerator.sanitizeFileName(book.title)}${this.BOOK_NOTE_SUFFIX}`);
+    }
+
+    /**
+     * Regenerate the library note and every book note from the cards and their book summaries.
+     * Returns the number of notes written.
+     */
+    async update(cards: KindleClipping[], metadata: BookMetadata[]): Promise<number> {
+        const books = this.groupByBook(cards, metadata);
+        let written = 0;
+
+        // Book notes first, so the library can link to them
+        for (const book of books) {
+            const path = LibraryIndex.getBookNotePath(book.metadata, this.settings);
+            if (await this.writeSection(path, 'book', this.renderBook(book, path))) {
+                written++;
+            }
+        }
+
+        const libraryPath = LibraryIndex.getLibraryNotePath(this.settings);
+        if (await this.writeSection(libraryPath, 'library', this.renderLibrary(books, libraryPath))) {
+            written++;
+        }
+
+        DebugLogger.log(`Library index updated: ${books.length} books, ${written} notes written`);
+        return written;
+    }
+
+    private groupByBook(cards: KindleClipping[], metadata: BookMetadata[]): BookEntry[] {
+        const books = new Map<string, BookEntry>(metadata.map(book => [book.key, { metadata: book, cards: [] }]));
+
+        for (const card of cards) {
+            books.get(BookMetadataStore.getBookKey(card))?.cards.push(card);
+        }
+
+        const result = Array.from(books.values()).filter(book => book.cards.length > 0);
+        result.forEach(book => book.cards.sort((a, b) => KindleParser.compareByPosition(a, b)));
+        return result.sort((a, b) => a.metadata.title.localeCompare(b.metadata.title));
+    }
+
+    private renderLibrary(books: BookEntry[], sourcePath: string): string {
+        const lines = [
+            '# Library',
+            '',
+            `${books.length} books · ${books.reduce((total, book) => total + book.cards.length, 0)} highlights`,
+            '',
+            '| Book | Author | Highlights | Last highlight | Progress |',
+            '| --- | --- | ---: | --- | --- |'
+        ];
+
+        for (const book of books) {
+            const link = this.createLink(LibraryIndex.getBookNotePath(book.metadata, this.settings), sourcePath, book.metadata.title);
+            const cells = [
+                link,
+                this.formatAuthor(book),
+                String(book.metadata.counts.highlight || book.cards.length),
+                this.formatLastHighlight(book),
+                this.formatProgress(book)
+            ];
+            lines.push(`| ${cells.map(cell => cell.replace(/\|/g, '\\|')).join(' | ')} |`);
+        }
+
+        return lines.join('\n');
+    }
+
+    private renderBook(book: BookEntry, sourcePath: string): string {
+        const lines = [
+            `# ${book.metadata.title}`,
+            '',
+            `**Author:** ${this.formatAuthor(book)} · ${book.cards.length} highlights · ${this.formatProgress(book)}`,
+            ''
+        ];
+
+        for (const card of book.cards) {
+            if (!card.filePath) continue;
+
+            const position = FlashcardGenerator.formatPosition(card) || card.location;
+            const preview = card.content.replace(/\s+/g, ' ').trim();
+            const excerpt = preview.length > 80 ? `${preview.substring(0, 80).trimEnd()}…` : preview;
+            lines.push(`- ${this.createLink(card.filePath, sourcePath, position)}: ${excerpt}`);
+        }
+
+        // Bookmarks are places in the book, not cards, so they are only listed here
+        const bookmarks = (this.settings.bookmarks || {})[book.metadata.key] || [];
+        if (bookmarks.length > 0) {
+            lines.push('', '## Bookmarks', '');
+            for (const bookmark of bookmarks) {
+                const position = FlashcardGenerator.formatPosition(bookmark) || bookmark.location;
+                lines.push(bookmark.added ? `- ${position} · ${moment(bookmark.added).format('YYYY-MM-DD')}` : `- ${position}`);
+            }
+        }
+
+        return lines.join('\n');
+    }
+
+    private formatAuthor(book: BookEntry): string {
+        const { authors, author } = book.metadata;
+        if (authors.length > 0) {
+            return authors.join(', ');
+        }
+        return author && author !== 'Unknown Author' ? author : '—';
+    }
+
+    private formatLastHighlight(book: BookEntry): string {
+        return book.metadata.lastHighlight ? moment(book.metadata.lastHighlight).format('YYYY-MM-DD') : '—';
+    }
+
+    private formatProgress(book: BookEntry): string {
+        const stats = this.spacedRepetition.getStats(book.cards.map(card => SpacedRepetitionSystem.getCardId(card)));
+        return `${stats.review} learned · ${stats.learning} learning · ${stats.new} new · ${stats.due} due`;
+    }
+
+    private createLink(path: string, sourcePath: string, alias: string): string {
+        const file = this.app.vault.getAbstractFileByPath(path);
+        if (file instanceof TFile) {
+            return this.app.fileManager.generateMarkdownLink(file, sourcePath, undefined, alias);
+        }
+        return `[[${path.replace(/\.md$/, '')}|${alias}]]`;
+    }
+
+    /**
+     * Write the generated section of a note, creating the note if needed.
+     * Returns whether the file changed.
+     */
+    private async writeSection(path: string, kind: 'library' | 'book', section: string): Promise<boolean> {
+        const block = `${LibraryIndex.SECTION_START}\n${section}\n${LibraryIndex.SECTION_END}`;
+        const existing = this.app.vault.getAbstractFileByPath(path);
+
+        if (!(existing instanceof TFile)) {
+            await VaultFolders.ensureExists(this.app, path.substring(0, path.lastIndexOf('/')));
+            await this.app.vault.create(path, `---\n${LibraryIndex.INDEX_FIELD}: ${kind}\n---\n${block}\n`);
+            return true;
+        }
+
+        const content = await this.app.vault.read(existing);
+        const updated = LibraryIndex.SECTION_REGEX.test(content)
+            ? content.replace(LibraryIndex.SECTION_REGEX, () => block)
+            : `${content.trimEnd()}\n\n${block}\n`;
+
+        if (updated === content) {
+            return false;
+        }
+
+        await this.app.vault.modify(existing, updated);
+        return true;
+    }
+}
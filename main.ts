@@ -1,17 +1,43 @@
-import { App, Editor, MarkdownView, Modal, Notice, Plugin, PluginSettingTab, Setting, TFile, TFolder, TextComponent } from 'obsidian';
+import { App, Editor, MarkdownView, Modal, Notice, Plugin, PluginSettingTab, Setting, TAbstractFile, TFile, TFolder, TextComponent, Vault, debounce, normalizePath } from 'obsidian';
 import { KindleParser } from './kindle-parser';
 import { FlashcardGenerator } from './flashcard-generator';
 import { FlashcardStudyModal } from './flashcard-modal';
 import { BookSelectionModal } from './book-selection-modal';
 import { SpacedRepetitionSystem } from './spaced-repetition';
-import { KindleClipping, KindleCardsSettings, CardReviewData } from './types';
+import { SyncEngine } from './sync-engine';
+import { ClippingFilter } from './clipping-filter';
+import { DuplicateReviewModal } from './duplicate-review-modal';
+import { Frontmatter } from './frontmatter';
+import { KindleSource, ClippingsReader, ResumePosition } from './kindle-source';
+import { ContentHash, ContentHashStream } from './content-hash';
+import { ClippingsWatcher } from './clippings-watcher';
+import { FileNameTemplate } from './file-name-template';
+import { CardIndex } from './card-index';
+import { ReviewMaintenanceModal } from './review-maintenance-modal';
+import { LibraryIndex } from './library-index';
+import { BookMetadataStore } from './book-metadata';
+import { SyncBackup } from './sync-backup';
+import { BackupRestoreModal } from './backup-restore-modal';
+import { SyncPreviewModal, SyncPreviewResult } from './sync-preview-modal';
+import { IgnoreList } from './ignore-list';
+import { IgnoreListModal } from './ignore-list-modal';
+import { SyncReportModal } from './sync-report-modal';
+import { KindleClipping, KindleCardsSettings, CardReviewData, SyncSummary, SyncPlan, SyncPlanItem, SyncPreviewEntry, DuplicateGroup, ExcludedClipping, SyncReport, ClippingsParseResult } from './types';
+import { VaultFolders } from './vault-folders';
 import { DebugLogger } from './logger';
 
 const DEFAULT_SETTINGS: KindleCardsSettings = {
 	kindlePath: '',
 	outputFolder: 'KindleCards',
-	cardTemplate: '{{content}}\n\n**Source:** {{title}} by {{author}} - Page {{location}}',
+	cardTemplate: FlashcardGenerator.DEFAULT_TEMPLATE,
 	spacedRepetitionData: {},
+	reviewTrash: {},
+	syncedClippings: {},
+	rejectedClippings: {},
+	ignoredBooks: {},
+	bookmarks: {},
+	lastSyncReport: null,
+	cardIdVersion: 1,
 	enableSpacedRepetition: true,
 	newCardsPerDay: 20,
 	
@@ -48,20 +74,26 @@ const DEFAULT_SETTINGS: KindleCardsSettings = {
 	maximumContentLength: 1000,
 	excludePatterns: [],
 	includeOnlyPatterns: [],
+	deduplicateClippings: true,
+	reviewDuplicateMerges: false,
 	
 	// File Organization Settings
 	groupCardsByBook: true,
 	useBookAuthorFolders: false,
 	generateTOC: false,
 	includeMetadataFiles: false,
-	cardFileNamingFormat: '{{title}} - {{location}}',
+	cardFileNamingFormat: FileNameTemplate.DEFAULT_FORMAT,
 	enableAutoSync: false,
+	previewBeforeSync: true,
+	lastSyncedFile: null,
 	backupBeforeSync: true,
+	backupRetention: 10,
 	
 	// UI/UX Preferences
 	preferredTheme: 'auto',
 	compactMode: false,
 	showBookCovers: false,
+	coversFolder: '',
 	enableBulkOperations: true,
 	confirmDeletions: true,
 	showAdvancedStats: true,
@@ -70,6 +102,7 @@ const DEFAULT_SETTINGS: KindleCardsSettings = {
 	maxCardsInMemory: 1000,
 	enableBackgroundSync: false,
 	cacheBookData: true,
+	bookData: {},
 	enableDebugLogging: false,
 	
 	// Export/Import Settings
@@ -82,6 +115,15 @@ const DEFAULT_SETTINGS: KindleCardsSettings = {
 export default class KindleCardsPlugin extends Plugin {
 	settings: KindleCardsSettings;
 	spacedRepetition: SpacedRepetitionSystem;
+	clippingsWatcher: ClippingsWatcher;
+	cardIndex: CardIndex;
+	bookMetadata: BookMetadataStore;
+	backups: SyncBackup;
+	private statusBarItemEl: HTMLElement;
+	private syncInProgress = false;
+
+	// Renames and deletions arrive in bursts (e.g. moving a folder), so their saves are batched
+	private requestSave = debounce(() => this.saveSettings(), 1000, true);
 
 	async onload() {
 		await this.loadSettings();
@@ -110,8 +152,29 @@ export default class KindleCardsPlugin extends Plugin {
 		});
 
 		// This adds a status bar item to the bottom of the app. Does not work on mobile apps.
-		const statusBarItemEl = this.addStatusBarItem();
-		statusBarItemEl.setText('KindleCards Ready');
+		this.statusBarItemEl = this.addStatusBarItem();
+		this.statusBarItemEl.setText('KindleCards Ready');
+
+		// Keep sync state and review history attached to cards that are renamed or deleted.
+		// Registered before the card index so deleted cards can still be looked up in it.
+		this.registerEvent(this.app.vault.on('rename', (file, oldPath) => this.handleFileRenamed(file, oldPath)));
+		this.registerEvent(this.app.vault.on('delete', file => this.handleFileDeleted(file)));
+
+		// Index cards across the vault, kept current from vault events
+		this.cardIndex = new CardIndex(this.app, () => this.settings, file => this.parseFlashcardFile(file));
+		this.cardIndex.register(this);
+		this.bookMetadata = new BookMetadataStore(this.app, () => this.settings);
+
+		// Backups live in the plugin folder, outside the vault index
+		const pluginDir = this.manifest.dir || `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+		this.backups = new SyncBackup(this.app, `${pluginDir}/backups`);
+
+		// Watch My Clippings.txt so connecting the Kindle triggers a sync
+		this.clippingsWatcher = new ClippingsWatcher(
+			() => this.settings.kindlePath,
+			() => this.settings.lastSyncedFile,
+			() => this.syncKindleClippings(true)
+		);
 
 		// This adds a simple command that can be triggered anywhere
 		this.addCommand({
@@ -154,6 +217,60 @@ export default class KindleCardsPlugin extends Plugin {
 			}
 		});
 
+		// Move existing cards into the configured book/author folder layout
+		this.addCommand({
+			id: 'organize-cards-into-folders',
+			name: 'Move Cards into Book Folders',
+			callback: () => {
+				this.organizeCardFolders();
+			}
+		});
+
+		// Regenerate the library and book index notes
+		this.addCommand({
+			id: 'update-library-index',
+			name: 'Update Library Index',
+			callback: () => {
+				this.updateLibraryIndex();
+			}
+		});
+
+		// Roll back the cards and review data of an earlier sync
+		this.addCommand({
+			id: 'restore-backup',
+			name: 'Restore Backup',
+			callback: () => {
+				this.openBackupRestore();
+			}
+		});
+
+		// What the last sync did, and the entries of My Clippings.txt it couldn't read
+		this.addCommand({
+			id: 'show-last-sync-report',
+			name: 'Show Last Sync Report',
+			callback: () => {
+				new SyncReportModal(this.app, this.settings.lastSyncReport).open();
+			}
+		});
+
+		// Review and edit the books and clippings that never become cards
+		this.addCommand({
+			id: 'manage-ignore-list',
+			name: 'Manage Ignore List',
+			callback: () => {
+				new IgnoreListModal(this.app, this).open();
+			}
+		});
+
+		// List and purge review history of deleted cards
+		this.addCommand({
+			id: 'clean-up-review-history',
+			name: 'Clean Up Review History',
+			callback: () => {
+				this.openReviewMaintenance();
+			}
+		});
+
 		// Open main modal command
 		this.addCommand({
 			id: 'open-kindle-cards-main',
@@ -185,10 +302,105 @@ export default class KindleCardsPlugin extends Plugin {
 
 		// This adds a settings tab so the user can configure various aspects of the plugin
 		this.addSettingTab(new KindleCardsSettingTab(this.app, this));
+
+		// Move review history to persistent card IDs once the vault is indexed
+		this.app.workspace.onLayoutReady(() => {
+			this.migrateCardIds().catch(error => {
+				console.error('Failed to migrate card IDs:', error);
+			});
+			this.updateAutoSync();
+		});
 	}
 
 	onunload() {
+		this.clippingsWatcher?.stop();
+	}
 
+	/**
+	 * Start or stop watching the clippings file to match the auto-sync setting
+	 */
+	updateAutoSync() {
+		if (this.settings.enableAutoSync) {
+			const intervalId = this.clippingsWatcher.start();
+			if (intervalId !== null) {
+				this.registerInterval(intervalId);
+			}
+		} else {
+			this.clippingsWatcher.stop();
+		}
+	}
+
+	/**
+	 * Point sync records at a renamed card file, or at the cards inside a renamed folder
+	 */
+	private handleFileRenamed(file: TAbstractFile, oldPath: string) {
+		const prefix = `${oldPath}/`;
+		let changed = false;
+
+		for (const record of Object.values(this.settings.syncedClippings || {})) {
+			if (record.path === oldPath) {
+				record.path = file.path;
+				changed = true;
+			} else if (record.path.startsWith(prefix)) {
+				record.path = `${file.path}/${record.path.substring(prefix.length)}`;
+				changed = true;
+			}
+		}
+
+		if (changed) {
+			this.requestSave();
+		}
+	}
+
+	/**
+	 * Move the review history of deleted cards to the trash, where it stays recoverable
+	 */
+	private handleFileDeleted(file: TAbstractFile) {
+		const prefix = `${file.path}/`;
+		const paths: Record<string, string> = {};
+
+		for (const record of Object.values(this.settings.syncedClippings || {})) {
+			if (record.path === file.path || record.path.startsWith(prefix)) {
+				paths[record.cardId] = record.path;
+			}
+		}
+		for (const card of this.cardIndex.getIndexedCards(file.path)) {
+			paths[SpacedRepetitionSystem.getCardId(card)] = card.filePath || file.path;
+		}
+
+		const cardIds = Object.keys(paths);
+		if (cardIds.length > 0 && this.spacedRepetition.trashCards(cardIds, paths) > 0) {
+			this.requestSave();
+		}
+	}
+
+	/**
+	 * Bring back trashed review history for cards that exist again
+	 */
+	private restoreReviewHistory(cardIds: string[]) {
+		const restored = this.spacedRepetition.restoreCards(cardIds);
+		if (restored > 0) {
+			DebugLogger.log(`Restored review history for ${restored} cards from the trash`);
+			this.requestSave();
+		}
+	}
+
+	async openReviewMaintenance() {
+		try {
+			const cards = await this.cardIndex.getCards();
+			const liveCardIds = cards.map(card => SpacedRepetitionSystem.getCardId(card));
+			this.restoreReviewHistory(liveCardIds);
+
+			const orphanedIds = this.spacedRepetition.getOrphanedCardIds(new Set(liveCardIds));
+			new ReviewMaintenanceModal(this.app, this, orphanedIds).open();
+		} catch (error) {
+			console.error('Error opening review maintenance:', error);
+			new Notice('Error checking review history. Check console for details.');
+		}
+	}
+
+	private setSyncStatus(status: string) {
+		this.statusBarItemEl?.setText(`KindleCards: ${status}`);
 	}
 
 	async loadSettings() {
@@ -200,6 +412,7 @@ export default class KindleCardsPlugin extends Plugin {
 		// Save spaced repetition data
 		if (this.spacedRepetition) {
 			this.settings.spacedRepetitionData = this.spacedRepetition.exportData();
+			this.settings.reviewTrash = this.spacedRepetition.exportTrash();
 			DebugLogger.log(`Saving ${Object.keys(this.settings.spacedRepetitionData).length} card records to disk`);
 		}
 		await this.saveData(this.settings);
@@ -213,43 +426,351 @@ export default class KindleCardsPlugin extends Plugin {
 		new KindleCardsMainModal(this.app, this).open();
 	}
 
-	async syncKindleClippings() {
-		try {
-			new Notice('Starting Kindle sync...');
+	/**
+	 * Sync My Clippings.txt into card files.
+	 * The file is read and parsed a chunk at a time, with progress in the status bar (and a notice
+	 * for large files on manual syncs). Automatic syncs (from the clippings watcher) never open the
+	 * file picker, only parse the entries appended since the last sync when the file has just grown,
+	 * skip files that haven't changed, and report only to the status bar when background sync is enabled.
+	 */
+	async syncKindleClippings(automatic = false) {
+		if (this.syncInProgress) {
+			if (!automatic) {
+				new Notice('A Kindle sync is already running');
+			}
+			return;
+		}
 
-			// Check if Kindle path is set
-			if (!this.settings.kindlePath) {
-				new Notice('Please set your Kindle path in settings');
+		const quiet = automatic && this.settings.enableBackgroundSync;
+		const notify = (message: string) => {
+			if (!quiet) {
+				new Notice(message);
+			}
+		};
+
+		this.syncInProgress = true;
+		let syncReport: SyncReport = {
+			started: new Date().toISOString(),
+			automatic,
+			outcome: 'failed',
+			source: null,
+			resumedFrom: null,
+			entries: 0,
+			clippings: 0,
+			bookmarks: 0,
+			summary: null,
+			messages: [],
+			diagnostics: [],
+			diagnosticCounts: { skipped: 0, partial: 0 }
+		};
+		try {
+			notify('Starting Kindle sync...');
+			this.setSyncStatus('syncing…');
+
+			// Open the My Clippings.txt file
+			const source = automatic
+				? (await KindleSource.openClippingsFile(this.settings.kindlePath)).reader
+				: await this.openKindleClippings();
+			if (!source) {
+				notify('Could not read My Clippings.txt file');
+				this.setSyncStatus('clippings file not available');
 				return;
 			}
 
-			// Read the My Clippings.txt file
-			const clippingsContent = await this.readKindleClippings();
-			if (!clippingsContent) {
-				new Notice('Could not read My Clippings.txt file');
+			// Automatic syncs carry on after the entries parsed last time, as long as the file has only grown
+			let resume = automatic ? await this.getResumePosition(source) : null;
+			if (resume && resume.offset === source.size) {
+				// Touched but not changed; remember the new timestamp so the watcher skips it next time
+				await this.recordSyncedFile(source, resume.offset, resume.line, resume.hash.digest());
+				this.setSyncStatus('up to date');
 				return;
 			}
 
-			// Parse the clippings
-			const validation = KindleParser.validateClippingsFile(clippingsContent);
-			if (!validation.valid) {
-				new Notice(`Error: ${validation.message}`);
+			// Parse the clippings a chunk at a time. Books on the ignore list are dropped while parsing;
+			// bookmarks come back separately, and entries that can't be read come back as diagnostics
+			let { parsed, fileHash } = await this.readClippings(source, resume, quiet);
+
+			// Notes are attached to the highlight they annotate, and re-highlights are merged into the most
+			// recent version; both need the earlier entry too. If a new entry may belong with a card from
+			// an earlier sync, read the whole file after all
+			const earlierCards = resume ? await this.cardIndex.getCards() : [];
+			if (resume && (KindleParser.mayAnnotate(parsed.clippings, earlierCards)
+				|| (this.settings.deduplicateClippings && KindleParser.mayDuplicate(parsed.clippings, earlierCards)))) {
+				resume = null;
+				({ parsed, fileHash } = await this.readClippings(source, null, quiet));
+			}
+			this.setSyncStatus('syncing…');
+
+			syncReport = {
+				...syncReport,
+				source: source.path,
+				resumedFrom: resume ? resume.offset : null,
+				entries: parsed.entries,
+				clippings: parsed.clippings.length,
+				bookmarks: parsed.bookmarks.length,
+				diagnostics: parsed.diagnostics
+			};
+
+			// Only a whole file can be judged; appended entries were checked one by one
+			const validation = resume ? null : KindleParser.validateClippingsFile(parsed);
+			if (validation && !validation.valid) {
+				notify(`Error: ${validation.message}`);
+				this.setSyncStatus('sync failed');
+				await this.recordSyncReport(syncReport, 'failed', [validation.message]);
 				return;
 			}
 
-			const clippings = KindleParser.parseClippings(clippingsContent);
+			// Identities are numbered over everything parsed, so merging and filtering below can't shift them
+			const engine = new SyncEngine(this.app, this.settings);
+			let parsedClippings = engine.identify(parsed.clippings, !!resume, earlierCards);
+
+			// Collapse re-highlights of the same passage into the most recent version. Automatic syncs
+			// run unattended, so they never stop to ask for a review
+			let mergedDuplicates = 0;
+			const droppedDuplicates: KindleClipping[] = [];
+			if (this.settings.deduplicateClippings) {
+				const groups = KindleParser.findDuplicates(parsedClippings);
+				const accepted = this.settings.reviewDuplicateMerges && !automatic && groups.length > 0
+					? await this.reviewDuplicateMerges(groups)
+					: groups;
+
+				if (!accepted) {
+					notify('Kindle sync cancelled');
+					this.setSyncStatus('sync cancelled');
+					await this.recordSyncReport(syncReport, 'cancelled', ['Cancelled while reviewing duplicate highlights']);
+					return;
+				}
+
+				parsedClippings = KindleParser.removeDuplicates(parsedClippings, accepted);
+				accepted.forEach(group => droppedDuplicates.push(...group.duplicates));
+				mergedDuplicates = droppedDuplicates.length;
+			}
 
-			// Create flashcards
-			await this.createFlashcardsFromClippings(clippings);
+			// Apply the content-processing settings before any card is written
+			const { clippings, report, excluded } = ClippingFilter.apply(parsedClippings, this.settings);
+
+			// Compare against what is already in the vault, leaving out clippings rejected in earlier previews
+			const plan = await engine.plan(clippings, !!resume);
+			const offered = plan.items.filter(item => !IgnoreList.isClippingIgnored(this.settings, item.clipping));
+			const skippedRejected = plan.items.length - offered.length;
+			plan.items = offered;
+
+			// Let the user pick what a manual sync writes
+			let newlyRejected = 0;
+			let skippedUpdates = 0;
+			let newlyIgnoredBooks = 0;
+			if (!automatic && this.settings.previewBeforeSync && plan.items.some(item => item.action !== 'unchanged')) {
+				const result = await this.previewSync(plan, droppedDuplicates, excluded);
+				if (!result) {
+					notify('Kindle sync cancelled');
+					this.setSyncStatus('sync cancelled');
+					await this.recordSyncReport(syncReport, 'cancelled', ['Cancelled in the sync preview']);
+					return;
+				}
 
-			new Notice(`Created ${clippings.length} flashcards from Kindle highlights`);
+				// Books ignored in the preview go on the ignore list as a whole
+				IgnoreList.ignoreBooks(this.settings, result.ignoredBooks);
+				newlyIgnoredBooks = result.ignoredBooks.length;
+				plan.items = plan.items.filter(item => !IgnoreList.isBookIgnored(this.settings, item.clipping));
+
+				newlyRejected = IgnoreList.rejectUnticked(this.settings, plan.items, result.selected);
+				skippedUpdates = plan.items.filter(item => item.action === 'updated' && !result.selected.has(item.key)).length;
+				plan.items = plan.items.filter(item => item.action === 'unchanged' || result.selected.has(item.key));
+			}
+
+			// Create or update the card files, backing up the book files the sync rewrites along with them
+			const summary = await this.applySyncPlan(engine, plan, await this.getBookFilePaths(plan, [...parsedClippings, ...parsed.bookmarks]));
+
+			// Summarise each book from everything on the Kindle, before filtering; saved with the sync state.
+			// Bookmarks are kept with it for the book index notes.
+			await this.bookMetadata.update(parsedClippings, parsed.bookmarks, !!resume);
+			if (source.path) {
+				await this.recordSyncedFile(source, parsed.endOffset, parsed.endLine, fileHash.digest());
+			}
+			if (this.settings.generateTOC) {
+				await this.updateLibraryIndex(true);
+			}
+
+			const messages = [SyncEngine.formatSummary(summary)];
+			if (resume) {
+				messages.push(`Read ${parsed.entries} entries added since the last sync`);
+			}
+			if (mergedDuplicates > 0) {
+				messages.push(`Merged ${mergedDuplicates} duplicate highlights`);
+			}
+			const filterMessage = ClippingFilter.formatReport(report);
+			if (filterMessage) {
+				messages.push(filterMessage);
+			}
+			if (newlyIgnoredBooks > 0) {
+				messages.push(`Added ${newlyIgnoredBooks} books to the ignore list`);
+			}
+			if (newlyRejected > 0) {
+				messages.push(`Rejected ${newlyRejected} clippings; they won't be offered again`);
+			}
+			if (skippedUpdates > 0) {
+				messages.push(`Left ${skippedUpdates} card updates for a later sync`);
+			}
+			if (skippedRejected > 0) {
+				messages.push(`Skipped ${skippedRejected} previously rejected clippings`);
+			}
+			if (parsed.ignored > 0) {
+				messages.push(`Skipped ${parsed.ignored} clippings from ignored books`);
+			}
+			const problemEntries = new Set(parsed.diagnostics.map(diagnostic => diagnostic.offset)).size;
+			if (problemEntries > 0) {
+				messages.push(`${problemEntries} entries couldn't be fully read; run "Show Last Sync Report" for details`);
+			}
+			syncReport = { ...syncReport, summary };
+			await this.recordSyncReport(syncReport, 'completed', messages);
+			notify(messages.join('\n'));
+			this.setSyncStatus(`${summary.created} new, ${summary.updated} updated · ${new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`);
 		} catch (error) {
 			console.error('Error syncing Kindle clippings:', error);
-			new Notice('Error syncing Kindle clippings. Check console for details.');
+			notify('Error syncing Kindle clippings. Check console for details.');
+			this.setSyncStatus('sync failed');
+			if (syncReport.source !== null) {
+				await this.recordSyncReport(syncReport, 'failed', [`Sync failed: ${error?.message || error}`]).catch(saveError => {
+					console.error('Failed to save the sync report:', saveError);
+				});
+			}
+		} finally {
+			this.syncInProgress = false;
+		}
+	}
+
+	/**
+	 * Parse the clippings file from `resume`, or from the start. Everything read is hashed on the way,
+	 * so the next sync can check that this part is unchanged.
+	 */
+	private async readClippings(source: ClippingsReader, resume: ResumePosition | null, quiet: boolean): Promise<{ parsed: ClippingsParseResult; fileHash: ContentHashStream }> {
+		const progressNotice = !quiet && source.size - (resume?.offset || 0) > KindleParser.CHUNK_SIZE
+			? new Notice('Reading My Clippings.txt… 0%', 0)
+			: null;
+		const fileHash = resume ? resume.hash : ContentHash.createStream();
+
+		try {
+			const parsed = await KindleParser.parseChunked(async (start, end) => {
+				const bytes = await source.read(start, end);
+				fileHash.update(bytes);
+				return bytes;
+			}, {
+				start: resume?.offset || 0,
+				end: source.size,
+				line: resume?.line || 1,
+				isIgnored: clipping => IgnoreList.isBookIgnored(this.settings, clipping),
+				onProgress: (done, total) => {
+					const percent = Math.floor((done / Math.max(1, total)) * 100);
+					this.setSyncStatus(`reading clippings… ${percent}%`);
+					progressNotice?.setMessage(`Reading My Clippings.txt… ${percent}%`);
+				}
+			});
+			return { parsed, fileHash };
+		} finally {
+			progressNotice?.hide();
+		}
+	}
+
+	/**
+	 * Where to resume parsing the clippings file: after the entries parsed at the last sync, if this
+	 * is the same file and the bytes before that point are unchanged. Null means parse it all.
+	 * A resumed sync merges into the book summaries of earlier syncs, so without a cache or
+	 * sidecars to read them from it parses everything instead.
+	 */
+	private async getResumePosition(source: ClippingsReader): Promise<ResumePosition | null> {
+		if (!this.settings.cacheBookData && !this.settings.includeMetadataFiles) {
+			return null;
+		}
+
+		try {
+			return await KindleSource.findResumePosition(source, this.settings.lastSyncedFile);
+		} catch (error) {
+			DebugLogger.error('Could not check the clippings file for appended entries:', error);
+			return null;
+		}
+	}
+
+	/**
+	 * Keep the outcome of a sync for the "Show Last Sync Report" command. Only as many parse
+	 * diagnostics as the report shows are saved, with the totals, so a damaged file can't bloat data.json.
+	 */
+	private async recordSyncReport(report: SyncReport, outcome: SyncReport['outcome'], messages: string[]) {
+		const skipped = report.diagnostics.filter(diagnostic => diagnostic.skipped).length;
+		this.settings.lastSyncReport = {
+			...report,
+			outcome,
+			messages,
+			diagnostics: report.diagnostics.slice(0, SyncReportModal.MAX_ROWS),
+			diagnosticCounts: { skipped, partial: report.diagnostics.length - skipped }
+		};
+		await this.saveSettings();
+	}
+
+	/**
+	 * Regenerate the library index note and the per-book index notes from the cards in the output folder.
+	 * Only the generated sections are rewritten, so notes added around them are kept.
+	 */
+	async updateLibraryIndex(quiet = false) {
+		try {
+			const cards = await this.cardIndex.getCards(this.settings.outputFolder);
+			const books = this.bookMetadata.getBooks(cards);
+			const written = await new LibraryIndex(this.app, this.settings, this.spacedRepetition).update(cards, books);
+			if (!quiet) {
+				new Notice(written > 0 ? `Updated ${written} index notes` : 'Library index is up to date');
+			}
+		} catch (error) {
+			console.error('Error updating library index:', error);
+			new Notice('Error updating library index. Check console for details.');
 		}
 	}
 
-	async readKindleClippings(): Promise<string | null> {
+	/**
+	 * Remember the clippings file as synced, so unchanged files can be skipped by size and time alone,
+	 * and how far it was parsed, so the next automatic sync can start there. `hash` covers the bytes
+	 * before `parsedOffset`.
+	 */
+	private async recordSyncedFile(source: ClippingsReader, parsedOffset: number, parsedLines: number, hash: string) {
+		if (!source.path) {
+			return;
+		}
+
+		this.settings.lastSyncedFile = {
+			path: source.path,
+			size: source.size,
+			modified: source.modified,
+			hash,
+			parsedOffset,
+			parsedLines
+		};
+		await this.saveSettings();
+	}
+
+	private async reviewDuplicateMerges(groups: DuplicateGroup[]): Promise<DuplicateGroup[] | null> {
+		return new Promise((resolve) => {
+			new DuplicateReviewModal(this.app, groups, resolve).open();
+		});
+	}
+
+	/**
+	 * Open My Clippings.txt from the configured Kindle path, falling back to a file picker
+	 * when no path is set, the path can't be used, or the app can't access the file system.
+	 * The reader's path is null for files chosen in the picker.
+	 */
+	async openKindleClippings(): Promise<ClippingsReader | null> {
+		if (this.settings.kindlePath && KindleSource.canReadFromDisk()) {
+			const result = await KindleSource.openClippingsFile(this.settings.kindlePath);
+			if (result.reader) {
+				return result.reader;
+			}
+
+			new Notice(`Could not use the Kindle path: ${result.error}. Choose My Clippings.txt manually.`);
+		}
+
+		const file = await this.pickClippingsFile();
+		return file ? KindleSource.fromFile(file) : null;
+	}
+
+	private async pickClippingsFile(): Promise<File | null> {
 		try {
 			// Use file picker approach with better debugging
 			const input = document.createElement('input');
@@ -260,18 +781,9 @@ export default class KindleCardsPlugin extends Plugin {
 				input.onchange = (e) => {
 					const file = (e.target as HTMLInputElement).files?.[0];
 					if (file) {
+						// Read later a chunk at a time, so large files don't have to fit in one string
 						DebugLogger.log('Selected file:', file.name, 'Size:', file.size);
-						const reader = new FileReader();
-						reader.onload = (e) => {
-							const content = e.target?.result as string;
-							DebugLogger.log('File content length:', content?.length);
-							resolve(content);
-						};
-						reader.onerror = (e) => {
-							DebugLogger.error('Error reading file:', e);
-							resolve(null);
-						};
-						reader.readAsText(file);
+						resolve(file);
 					} else {
 						DebugLogger.log('No file selected');
 						resolve(null);
@@ -285,50 +797,146 @@ export default class KindleCardsPlugin extends Plugin {
 		}
 	}
 
-	async createFlashcardsFromClippings(clippings: KindleClipping[]) {
-		// Ensure output folder exists
-		const outputFolder = this.settings.outputFolder;
-		await this.ensureFolderExists(outputFolder);
+	/**
+	 * Show the planned changes, duplicates and filtered-out clippings, and resolve with the clippings
+	 * to write and the books to ignore, or null when the sync is cancelled
+	 */
+	private async previewSync(plan: SyncPlan, duplicates: KindleClipping[], excluded: ExcludedClipping[]): Promise<SyncPreviewResult | null> {
+		const entries: SyncPreviewEntry[] = [
+			...plan.items.map(item => ({ clipping: item.clipping, action: item.action, key: item.key })),
+			...duplicates.map(clipping => ({ clipping, action: 'duplicate' as const, reason: 'Merged into a newer highlight of the same passage' })),
+			...excluded.map(({ clipping, reason }) => ({ clipping, action: 'filtered' as const, reason }))
+		];
+
+		return new Promise((resolve) => {
+			new SyncPreviewModal(this.app, entries, resolve).open();
+		});
+	}
+
+	/**
+	 * Write a sync plan, backing up the files it changes first, and persist the new sync state.
+	 * `bookFilePaths` are the other files the sync writes (index notes, metadata sidecars);
+	 * they go into the same backup.
+	 */
+	async applySyncPlan(engine: SyncEngine, plan: SyncPlan, bookFilePaths: string[] = []): Promise<SyncSummary> {
+		// Snapshot everything the sync is about to write; if that fails, nothing is written
+		const changedPaths = plan.items.filter(item => item.action !== 'unchanged').map(item => item.path);
+		if (this.settings.backupBeforeSync && changedPaths.length > 0) {
+			const paths = Array.from(new Set([...changedPaths, ...bookFilePaths]));
+			await this.backups.create('Before sync', paths, this.getCurrentState());
+		}
+
+		const summary = await engine.execute(plan);
+
+		// Re-synced cards that were deleted get their review history back
+		this.restoreReviewHistory(Object.values(this.settings.syncedClippings).map(record => record.cardId));
 
-		for (const clipping of clippings) {
-			await this.createFlashcardFromClipping(clipping);
+		// Persist the sync state so the next run can detect changes
+		await this.saveSettings();
+
+		return summary;
+	}
+
+	/**
+	 * Files a sync may rewrite besides the cards: the metadata sidecar of every parsed book and,
+	 * with the library index on, the library note and the index note of every book with cards
+	 */
+	private async getBookFilePaths(plan: SyncPlan, clippings: KindleClipping[]): Promise<string[]> {
+		const paths: string[] = [];
+		if (this.settings.includeMetadataFiles) {
+			BookMetadataStore.summarize(clippings).forEach(book => paths.push(BookMetadataStore.getSidecarPath(book, this.settings)));
+		}
+		if (this.settings.generateTOC) {
+			const cards = await this.cardIndex.getCards(this.settings.outputFolder);
+			[...cards, ...plan.items.map(item => item.clipping)].forEach(book => paths.push(LibraryIndex.getBookNotePath(book, this.settings)));
+			paths.push(LibraryIndex.getLibraryNotePath(this.settings));
 		}
+		return Array.from(new Set(paths));
 	}
 
-	async createFlashcardFromClipping(clipping: KindleClipping) {
-		// Create simple filename from title and location
-		const fileName = FlashcardGenerator.sanitizeFileName(`${clipping.title} - ${clipping.location}`) + '.md';
-		const filePath = `${this.settings.outputFolder}/${fileName}`;
+	/**
+	 * Settings with the in-memory review data, as the next save would write them
+	 */
+	private getCurrentState(): KindleCardsSettings {
+		return {
+			...this.settings,
+			spacedRepetitionData: this.spacedRepetition.exportData(),
+			reviewTrash: this.spacedRepetition.exportTrash()
+		};
+	}
 
-		// Create flashcard content with simple template
-		const flashcardContent = FlashcardGenerator.generateFlashcard(clipping, this.settings.cardTemplate);
+	async openBackupRestore() {
+		try {
+			const backups = await this.backups.list();
+			new BackupRestoreModal(
+				this.app,
+				backups,
+				this.settings.confirmDeletions,
+				id => this.restoreBackup(id),
+				id => this.backups.delete(id)
+			).open();
+		} catch (error) {
+			console.error('Error listing backups:', error);
+			new Notice('Error listing backups. Check console for details.');
+		}
+	}
 
-		// Check if file already exists
-		const existingFile = this.app.vault.getAbstractFileByPath(filePath);
-		if (existingFile) {
-			// File exists, could implement update logic here
+	/**
+	 * Roll back to a snapshot: card files, index notes and sidecars, review history and sync state. The current state is
+	 * backed up first, so a restore can itself be undone.
+	 */
+	async restoreBackup(id: string) {
+		if (this.syncInProgress) {
+			new Notice('Wait for the Kindle sync to finish before restoring a backup');
 			return;
 		}
 
-		// Create new file
-		await this.app.vault.create(filePath, flashcardContent);
+		try {
+			const snapshot = await this.backups.load(id);
+			if (!snapshot) {
+				new Notice('Could not read this backup');
+				return;
+			}
+
+			await this.backups.create('Before restore', snapshot.files.map(file => file.path), this.getCurrentState());
+			const { restored, failed } = await this.backups.restoreFiles(snapshot);
+
+			this.settings.syncedClippings = snapshot.syncedClippings;
+			this.settings.reviewTrash = snapshot.reviewTrash;
+			this.settings.lastSyncedFile = null;
+			this.spacedRepetition = new SpacedRepetitionSystem(snapshot.spacedRepetitionData, this.settings);
+			await this.saveSettings();
+			this.cardIndex.invalidate();
+
+			new Notice(`Restored backup from ${new Date(snapshot.created).toLocaleString()}: ${restored} files restored` +
+				(failed > 0 ? `, ${failed} failed (see console)` : ''));
+		} catch (error) {
+			console.error('Error restoring backup:', error);
+			new Notice('Error restoring backup. Check console for details.');
+		}
 	}
 
 	async createFlashcardFromText(text: string) {
-		const fileName = FlashcardGenerator.sanitizeFileName(`Flashcard - ${new Date().toISOString().split('T')[0]}`) + '.md';
-		const filePath = `${this.settings.outputFolder}/${fileName}`;
-
-		const flashcardContent = FlashcardGenerator.generateFlashcard({
+		const clipping: KindleClipping = {
 			title: 'Custom Flashcard',
 			author: 'User Created',
 			type: 'Note',
 			location: 'N/A',
 			date: new Date().toLocaleString(),
 			content: text
-		}, this.settings.cardTemplate);
+		};
+		const cardId = SpacedRepetitionSystem.generateCardId(clipping.title, clipping.author, `${clipping.date}|${text}`);
+		const flashcardContent = FlashcardGenerator.generateCardFile(clipping, this.settings.cardTemplate, cardId);
+
+		const folderPath = SyncEngine.getCardFolder(clipping, this.settings);
+		const fileName = FileNameTemplate.render(this.settings.cardFileNamingFormat, clipping, { index: 1, hash: cardId.substring(0, 8) });
+		let filePath = normalizePath(`${folderPath}/${fileName}.md`);
+		if (this.app.vault.getAbstractFileByPath(filePath)) {
+			filePath = normalizePath(`${folderPath}/${fileName} (${cardId.substring(0, 8)}).md`);
+		}
 
 		try {
-			await this.ensureFolderExists(this.settings.outputFolder);
+			await VaultFolders.ensureExists(this.app, folderPath);
 			await this.app.vault.create(filePath, flashcardContent);
 			new Notice('Flashcard created!');
 		} catch (error) {
@@ -337,28 +945,113 @@ export default class KindleCardsPlugin extends Plugin {
 		}
 	}
 
-	async ensureFolderExists(folderPath: string) {
-		const folder = this.app.vault.getAbstractFileByPath(folderPath);
-		if (!folder) {
-			await this.app.vault.createFolder(folderPath);
+	/**
+	 * Move card files into the folder layout chosen in settings (flat, per book, or per author and book).
+	 * Review history follows the card because it is keyed by the card ID in the file's frontmatter.
+	 */
+	async organizeCardFolders(): Promise<void> {
+		try {
+			const outputFolder = this.app.vault.getAbstractFileByPath(this.settings.outputFolder);
+			if (!(outputFolder instanceof TFolder)) {
+				new Notice(`Output folder "${this.settings.outputFolder}" does not exist`);
+				return;
+			}
+
+			const records = this.settings.syncedClippings || {};
+			const keysByPath = new Map<string, string[]>();
+			for (const [key, record] of Object.entries(records)) {
+				keysByPath.set(record.path, [...(keysByPath.get(record.path) || []), key]);
+			}
+
+			const cardFiles: TFile[] = [];
+			Vault.recurseChildren(outputFolder, child => {
+				if (child instanceof TFile && child.extension === 'md') {
+					cardFiles.push(child);
+				}
+			});
+
+			const emptiedFolders = new Set<TFolder>();
+			let moved = 0;
+			let failed = 0;
+
+			for (const file of cardFiles) {
+				if (LibraryIndex.isIndexNote(this.app, file, this.settings)) continue;
+
+				const keys = keysByPath.get(file.path) || [];
+				const record = keys.length > 0 ? records[keys[0]] : null;
+
+				// Synced cards remember their book; older and manual cards are read from the file
+				let book: { title: string; author: string } | null = record?.title
+					? { title: record.title, author: record.author || 'Unknown Author' }
+					: null;
+				if (!book) {
+					const clipping = await this.parseFlashcardFile(file);
+					if (!clipping || clipping.title === 'Unknown Book') continue;
+					book = { title: clipping.title, author: clipping.author };
+				}
+
+				const targetFolder = SyncEngine.getCardFolder(book, this.settings);
+				if (file.parent?.path === targetFolder) continue;
+
+				let targetPath = normalizePath(`${targetFolder}/${file.name}`);
+				let counter = 2;
+				while (this.app.vault.getAbstractFileByPath(targetPath)) {
+					targetPath = normalizePath(`${targetFolder}/${file.basename} (${counter}).${file.extension}`);
+					counter++;
+				}
+
+				try {
+					const sourceFolder = file.parent;
+					await VaultFolders.ensureExists(this.app, targetFolder);
+					// The rename handler points the sync records at the new path
+					await this.app.fileManager.renameFile(file, targetPath);
+					if (sourceFolder && sourceFolder.path !== this.settings.outputFolder) {
+						emptiedFolders.add(sourceFolder);
+					}
+					moved++;
+				} catch (error) {
+					failed++;
+					DebugLogger.error(`Failed to move card ${file.path}:`, error);
+				}
+			}
+
+			// Remove book and author folders the move left empty
+			for (const folder of emptiedFolders) {
+				let current: TFolder | null = folder;
+				while (current && current.path !== this.settings.outputFolder && current.children.length === 0) {
+					const parent: TFolder | null = current.parent;
+					await this.app.vault.delete(current);
+					current = parent;
+				}
+			}
+
+			await this.saveSettings();
+
+			new Notice(moved === 0 && failed === 0
+				? 'All cards are already in the right folders'
+				: `Moved ${moved} cards into book folders${failed > 0 ? ` (${failed} failed, see console)` : ''}`);
+		} catch (error) {
+			console.error('Error organizing card folders:', error);
+			new Notice('Error moving cards into folders. Check console for details.');
 		}
 	}
 
 	async startStudySession(): Promise<void> {
 		try {
-			// Get all flashcards from the output folder
-			const clippings = await this.loadFlashcardsFromFolder(this.settings.outputFolder);
+			// Get all flashcards in the vault
+			const clippings = await this.cardIndex.getCards();
 
 			if (clippings.length === 0) {
 				new Notice('No flashcards found! Sync your Kindle highlights first.');
 				return;
 			}
+			this.restoreReviewHistory(clippings.map(clipping => SpacedRepetitionSystem.getCardId(clipping)));
 
 			// Apply spaced repetition sorting if enabled
 			const sortedClippings = this.applySRSSorting(clippings);
 
 			// Open the book selection modal with sorted clippings
-			const bookSelectionModal = new BookSelectionModal(this.app, sortedClippings, this);
+			const bookSelectionModal = new BookSelectionModal(this.app, sortedClippings, this, this.bookMetadata.getBooks(clippings));
 			bookSelectionModal.open();
 
 		} catch (error) {
@@ -379,7 +1072,7 @@ export default class KindleCardsPlugin extends Plugin {
 			// Generate card IDs for all clippings
 			const cardIds = clippings.map(clipping => {
 				try {
-					return SpacedRepetitionSystem.generateCardId(clipping.title, clipping.author, clipping.content);
+					return SpacedRepetitionSystem.getCardId(clipping);
 				} catch (error) {
 					console.warn('Failed to generate card ID for clipping:', clipping.title, error);
 					return null;
@@ -512,7 +1205,7 @@ export default class KindleCardsPlugin extends Plugin {
 			}
 
 			const folderPath = activeFile.parent?.path || '';
-			const clippings = await this.loadFlashcardsFromFolder(folderPath);
+			const clippings = await this.cardIndex.getCards(folderPath);
 
 			if (clippings.length === 0) {
 				new Notice('No flashcards found in current folder.');
@@ -520,7 +1213,7 @@ export default class KindleCardsPlugin extends Plugin {
 			}
 
 			// Open the book selection modal for the current folder
-			const bookSelectionModal = new BookSelectionModal(this.app, clippings, this);
+			const bookSelectionModal = new BookSelectionModal(this.app, clippings, this, this.bookMetadata.getBooks(clippings));
 			bookSelectionModal.open();
 
 		} catch (error) {
@@ -529,29 +1222,40 @@ export default class KindleCardsPlugin extends Plugin {
 		}
 	}
 
-	private async loadFlashcardsFromFolder(folderPath: string): Promise<KindleClipping[]> {
-		const clippings: KindleClipping[] = [];
-		const folder = this.app.vault.getAbstractFileByPath(folderPath);
-
-		if (!folder || !(folder instanceof TFolder)) {
-			return clippings;
-		}
-
-		for (const child of folder.children) {
-			if (child instanceof TFile && child.extension === 'md') {
-				const clipping = await this.parseFlashcardFile(child);
-				if (clipping) {
-					clippings.push(clipping);
+	private async parseFlashcardFile(file: TFile): Promise<KindleClipping | null> {
+		try {
+			const fileContent = await this.app.vault.cachedRead(file);
+			const { data, body: content } = Frontmatter.split(fileContent);
+
+			// Card metadata comes from the frontmatter, preferably as Obsidian has already indexed it
+			const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter || data;
+			const metadata = FlashcardGenerator.readCardMetadata(frontmatter);
+			if (metadata) {
+				const sourceLineIndex = content.split('\n').findIndex(line => line.trim().startsWith('**Source:**'));
+				const body = sourceLineIndex === -1 ? content : content.split('\n').slice(0, sourceLineIndex).join('\n');
+				const mainContent = this.cleanCardContent(body);
+
+				if (!mainContent || mainContent.length < 3) {
+					console.warn('No meaningful content found in flashcard:', file.path);
+					return null;
 				}
+				return { ...metadata, content: mainContent };
 			}
-		}
 
-		return clippings;
+			// Legacy cards without metadata: scrape the body
+			return this.parseLegacyFlashcard(file, content, frontmatter[FlashcardGenerator.CARD_ID_FIELD]);
+		} catch (error) {
+			console.error('Error parsing flashcard file:', file.path, error);
+			return null;
+		}
 	}
 
-	private async parseFlashcardFile(file: TFile): Promise<KindleClipping | null> {
+	/**
+	 * Recover card metadata from the **Source:**, **Book:** and **Author:** lines that older
+	 * versions wrote into the card body. Only works for cards using the default template.
+	 */
+	private parseLegacyFlashcard(file: TFile, content: string, cardId: unknown): KindleClipping | null {
 		try {
-			const content = await this.app.vault.read(file);
 
 			// Initialize with defaults
 			let title = 'Unknown Book';
@@ -578,35 +1282,21 @@ export default class KindleCardsPlugin extends Plugin {
 											 content.match(/(?:Location|Page)\s*(\d+(?:-\d+)?)/i);
 
 				// Strip common labels/metadata from the front text
-				mainContent = mainContent
-					.split('\n')
-					.filter(line => {
-						const l = line.trim();
-						if (!l) return false;
-						if (/^#/.test(l)) return false; // headers
-						if (/^#?flashcard\b/i.test(l)) return false; // tags
-						if (/^\*{0,2}(answer|location|page|added\s*on|date|source|tags?|type|book|author)\*{0,2}\s*:/i.test(l)) return false;
-						if (/---/.test(l)) return false; // separator lines
-						return true;
-					})
-					.join(' ')
-					.replace(/\s+/g, ' ')
-					.replace(/^\"|\"$/g, '')
-					.trim();
+				mainContent = this.cleanCardContent(mainContent);
 
 				// Parse the source line
 				const sourceLine = lines[sourceLineIndex].trim();
 				DebugLogger.log('Parsing source line:', sourceLine);
 
-				// Pattern: **Source:** Title by Author - Page Location
-				const fullMatch = sourceLine.match(/\*\*Source:\*\*\s*(.+?)\s+by\s+(.+?)\s*-\s*Page\s*(.+)/);
+				// Pattern: **Source:** Title by Author - p. 12 · loc. 180–182 (or the older "- Page 180-182")
+				const fullMatch = sourceLine.match(/\*\*Source:\*\*\s*(.+?)\s+by\s+(.+?)\s*(?:-\s*((?:Page|p\.|loc\.).*?))?\s*-?\s*$/);
 				if (fullMatch) {
 					title = fullMatch[1].trim();
 					author = fullMatch[2].trim();
-					location = fullMatch[3].trim();
+					location = fullMatch[3] ? fullMatch[3].trim() : location;
 				} else {
 					// Pattern: **Source:** Title - Page Location (no author)
-					const simpleMatch = sourceLine.match(/\*\*Source:\*\*\s*(.+?)\s*-\s*Page\s*(.+)/);
+					const simpleMatch = sourceLine.match(/\*\*Source:\*\*\s*(.+?)\s*-\s*((?:Page|p\.|loc\.).*)/);
 					if (simpleMatch) {
 						title = simpleMatch[1].trim();
 						location = simpleMatch[2].trim();
@@ -662,21 +1352,7 @@ export default class KindleCardsPlugin extends Plugin {
 				}
 
 				// Clean the main content by removing all metadata
-				mainContent = fullContent
-					.split('\n')
-					.filter(line => {
-						const l = line.trim();
-						if (!l) return false;
-						if (/^#/.test(l)) return false; // headers
-						if (/^#?flashcard\b/i.test(l)) return false;
-						if (/^\*{0,2}(answer|location|page|added\s*on|date|source|tags?|type|book|author)\*{0,2}\s*:/i.test(l)) return false;
-						if (/---/.test(l)) return false; // separator lines
-						return true;
-					})
-					.join(' ')
-					.replace(/\s+/g, ' ')
-					.replace(/^\"|\"$/g, '')
-					.trim();
+				mainContent = this.cleanCardContent(fullContent);
 			}
 
 			DebugLogger.log('Parsed flashcard:', { title, author, location, content: mainContent });
@@ -692,8 +1368,10 @@ export default class KindleCardsPlugin extends Plugin {
 				author,
 				type,
 				location,
+				...FlashcardGenerator.parsePosition(location),
 				date,
-				content: mainContent
+				content: mainContent,
+				cardId: cardId ? String(cardId) : undefined
 			};
 
 		} catch (error) {
@@ -702,6 +1380,86 @@ export default class KindleCardsPlugin extends Plugin {
 		}
 	}
 
+	/**
+	 * Reduce a card body to its question/answer text. An explicit answer label (written for
+	 * highlights with an attached note) is kept on its own line so the study modal can split on it.
+	 */
+	private cleanCardContent(text: string): string {
+		const answerLabel = /^\s*\*{0,2}answer\*{0,2}\s*:\s*\*{0,2}/im;
+		const match = text.match(answerLabel);
+
+		if (match && match.index !== undefined) {
+			const question = this.stripCardMetadata(text.slice(0, match.index));
+			const answer = this.stripCardMetadata(text.slice(match.index + match[0].length));
+			if (question && answer) {
+				return `${question}\nAnswer: ${answer}`;
+			}
+			return question || answer;
+		}
+
+		return this.stripCardMetadata(text);
+	}
+
+	private stripCardMetadata(text: string): string {
+		return text
+			.split('\n')
+			.filter(line => {
+				const l = line.trim();
+				if (!l) return false;
+				if (/^#/.test(l)) return false; // headers
+				if (/^#?flashcard\b/i.test(l)) return false; // tags
+				if (/^\*{0,2}(answer|location|page|added\s*on|date|source|tags?|type|book|author)\*{0,2}\s*:/i.test(l)) return false;
+				if (/---/.test(l)) return false; // separator lines
+				return true;
+			})
+			.join(' ')
+			.replace(/\s+/g, ' ')
+			.replace(/^\"|\"$/g, '')
+			.trim();
+	}
+
+	/**
+	 * One-time migration from content-hash card IDs to persistent IDs stored in card frontmatter.
+	 * Writes an ID into every card file that lacks one and carries its review history over.
+	 */
+	async migrateCardIds(): Promise<void> {
+		if (this.settings.cardIdVersion >= 2) {
+			return;
+		}
+
+		const folderPrefix = `${this.settings.outputFolder}/`;
+		const cardFiles = this.app.vault.getMarkdownFiles().filter(file => file.path.startsWith(folderPrefix));
+		const idMap: Record<string, string[]> = {};
+		let filesUpdated = 0;
+
+		for (const file of cardFiles) {
+			const clipping = await this.parseFlashcardFile(file);
+			if (!clipping) continue;
+
+			// The legacy ID is computed from the same parsed fields the study session used
+			const legacyId = SpacedRepetitionSystem.generateLegacyCardId(clipping.title, clipping.author, clipping.content);
+			let cardId = clipping.cardId;
+
+			if (!cardId) {
+				cardId = SpacedRepetitionSystem.generateCardId(clipping.title, clipping.author, `${file.path}|${clipping.content}`);
+				const fileContent = await this.app.vault.read(file);
+				await this.app.vault.modify(file, Frontmatter.setField(fileContent, FlashcardGenerator.CARD_ID_FIELD, cardId));
+				filesUpdated++;
+			}
+
+			(idMap[legacyId] = idMap[legacyId] || []).push(cardId);
+		}
+
+		const migrated = this.spacedRepetition.migrateCardIds(idMap);
+		this.settings.cardIdVersion = 2;
+		await this.saveSettings();
+
+		DebugLogger.log(`Card ID migration: ${filesUpdated} files updated, ${migrated} review records carried over`);
+		if (migrated > 0) {
+			new Notice(`KindleCards: moved review history for ${migrated} cards to persistent card IDs`);
+		}
+	}
+
 	private shuffleArray<T>(array: T[]): T[] {
 		const shuffled = [...array];
 		for (let i = shuffled.length - 1; i > 0; i--) {
@@ -809,7 +1567,7 @@ class KindleCardsSettingTab extends PluginSettingTab {
 
 		new Setting(containerEl)
 			.setName('Kindle Path')
-			.setDesc('Path to your Kindle device or My Clippings.txt file')
+			.setDesc('Path to your mounted Kindle or its My Clippings.txt file. Leave empty (or use the mobile app) to choose the file each sync.')
 			.addText(text => text
 				.setPlaceholder('/Volumes/Kindle/documents/My Clippings.txt')
 				.setValue(this.plugin.settings.kindlePath)
@@ -827,18 +1585,36 @@ class KindleCardsSettingTab extends PluginSettingTab {
 				.onChange(async (value) => {
 					this.plugin.settings.outputFolder = value;
 					await this.plugin.saveSettings();
+					this.plugin.cardIndex.invalidate();
 				}));
 
 		new Setting(containerEl)
 			.setName('Card Template')
-			.setDesc('Template for flashcards. Use {{content}}, {{title}}, {{author}}, {{location}}')
-			.addTextArea(text => text
-				.setPlaceholder('{{content}}\n\n**Source:** {{title}} by {{author}} - Page {{location}}')
-				.setValue(this.plugin.settings.cardTemplate)
-				.onChange(async (value) => {
-					this.plugin.settings.cardTemplate = value;
-					await this.plugin.saveSettings();
-				}));
+			.setDesc('Template for flashcards. Placeholders: {{content}}, {{note}}, {{title}}, {{author}}, {{authors}}, {{position}} (e.g. "p. 12 · loc. 180–182"), {{page}}, {{location}}, {{date}}, {{type}}. Sections: {{#if note}}…{{else}}…{{/if}}. Filters: {{author|lower}}, {{date|format:"YYYY-MM-DD"}}, {{content|truncate:200}}, {{title|escape}}. Start with a --- block to add frontmatter.')
+			.addTextArea(text => {
+				const previewEl = containerEl.createEl('pre', { cls: 'kindle-cards-template-preview' });
+				const showPreview = (value: string) => {
+					const error = FlashcardGenerator.validateTemplate(value);
+					text.inputEl.toggleClass('kindle-cards-invalid-input', error !== null);
+					previewEl.toggleClass('is-error', error !== null);
+					previewEl.setText(error
+						? error
+						: FlashcardGenerator.generateCardFile(FlashcardGenerator.SAMPLE_CLIPPING, value, 'sample-card-id'));
+					return error;
+				};
+
+				text
+					.setPlaceholder(FlashcardGenerator.DEFAULT_TEMPLATE)
+					.setValue(this.plugin.settings.cardTemplate)
+					.onChange(async (value) => {
+						// Only valid templates are saved, so sync never sees a broken one
+						if (showPreview(value) === null) {
+							this.plugin.settings.cardTemplate = value;
+							await this.plugin.saveSettings();
+						}
+					});
+				showPreview(this.plugin.settings.cardTemplate);
+			});
 
 		// Study Experience Section
 		containerEl.createEl('h2', {text: '🎯 Study Experience'});
@@ -972,12 +1748,54 @@ class KindleCardsSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('Merge Duplicate Highlights')
+			.setDesc('When a passage was highlighted more than once (e.g. after extending a highlight), keep only the most recent version')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.deduplicateClippings)
+				.onChange(async (value) => {
+					this.plugin.settings.deduplicateClippings = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Review Duplicate Merges')
+			.setDesc('Show the planned merges and let you confirm them before a manual sync writes any files. Automatic syncs merge without asking.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.reviewDuplicateMerges)
+				.onChange(async (value) => {
+					this.plugin.settings.reviewDuplicateMerges = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Exclude Patterns')
+			.setDesc('Regular expressions, one per line. Clippings whose text matches any of them are skipped (case-insensitive)')
+			.addTextArea(text => text
+				.setPlaceholder('^Chapter \\d+$')
+				.setValue(this.plugin.settings.excludePatterns.join('\n'))
+				.onChange(async (value) => {
+					this.plugin.settings.excludePatterns = this.parsePatternList(value, text.inputEl);
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Include Only Patterns')
+			.setDesc('Regular expressions, one per line. When set, only clippings matching at least one of them are synced')
+			.addTextArea(text => text
+				.setPlaceholder('habit|system')
+				.setValue(this.plugin.settings.includeOnlyPatterns.join('\n'))
+				.onChange(async (value) => {
+					this.plugin.settings.includeOnlyPatterns = this.parsePatternList(value, text.inputEl);
+					await this.plugin.saveSettings();
+				}));
+
 		// File Organization Section
 		containerEl.createEl('h2', {text: '📁 File Organization'});
 
 		new Setting(containerEl)
 			.setName('Group Cards by Book')
-			.setDesc('Create separate folders for each book\'s flashcards')
+			.setDesc('Create separate folders for each book\'s flashcards. Existing cards stay where they are until you run "Move Cards into Book Folders".')
 			.addToggle(toggle => toggle
 				.setValue(this.plugin.settings.groupCardsByBook)
 				.onChange(async (value) => {
@@ -987,7 +1805,7 @@ class KindleCardsSettingTab extends PluginSettingTab {
 
 		new Setting(containerEl)
 			.setName('Use Author-Based Folders')
-			.setDesc('Organize books into folders by author name')
+			.setDesc('Organize book folders into folders by author name (Author/Book)')
 			.addToggle(toggle => toggle
 				.setValue(this.plugin.settings.useBookAuthorFolders)
 				.onChange(async (value) => {
@@ -997,17 +1815,20 @@ class KindleCardsSettingTab extends PluginSettingTab {
 
 		new Setting(containerEl)
 			.setName('Generate Table of Contents')
-			.setDesc('Create an index file listing all books and cards')
+			.setDesc('After each sync, update a Library note listing every book and an index note per book linking to its cards. Text outside the generated section is kept.')
 			.addToggle(toggle => toggle
 				.setValue(this.plugin.settings.generateTOC)
 				.onChange(async (value) => {
 					this.plugin.settings.generateTOC = value;
 					await this.plugin.saveSettings();
+					if (value) {
+						await this.plugin.updateLibraryIndex();
+					}
 				}));
 
 		new Setting(containerEl)
 			.setName('Include Metadata Files')
-			.setDesc('Generate JSON metadata files with book information')
+			.setDesc('On sync, write a "<Book> - Metadata.json" file next to each book\'s cards with its authors, highlight dates, counts by type and location span')
 			.addToggle(toggle => toggle
 				.setValue(this.plugin.settings.includeMetadataFiles)
 				.onChange(async (value) => {
@@ -1017,28 +1838,65 @@ class KindleCardsSettingTab extends PluginSettingTab {
 
 		new Setting(containerEl)
 			.setName('Card File Naming Format')
-			.setDesc('Template for flashcard filenames. Use {{title}}, {{author}}, {{location}}, {{index}}')
-			.addText(text => text
-				.setPlaceholder('{{title}} - {{location}}')
-				.setValue(this.plugin.settings.cardFileNamingFormat)
-				.onChange(async (value) => {
-					this.plugin.settings.cardFileNamingFormat = value;
-					await this.plugin.saveSettings();
-				}));
+			.setDesc('Template for new card file names. Use any card template placeholder, plus {{date:YYYY-MM-DD}}, {{index}} (position within the book), {{hash}}, and a length limit such as {{content:40}}. Existing cards keep their names.')
+			.addText(text => {
+				const showValidation = (value: string) => {
+					const error = FileNameTemplate.validate(value);
+					text.inputEl.toggleClass('kindle-cards-invalid-input', error !== null);
+					text.inputEl.title = error || `Example: ${FileNameTemplate.preview(value)}.md`;
+					return error;
+				};
+
+				text
+					.setPlaceholder(FileNameTemplate.DEFAULT_FORMAT)
+					.setValue(this.plugin.settings.cardFileNamingFormat)
+					.onChange(async (value) => {
+						// Only valid formats are saved, so sync never sees a broken one
+						if (showValidation(value) === null) {
+							this.plugin.settings.cardFileNamingFormat = value;
+							await this.plugin.saveSettings();
+						}
+					});
+				showValidation(this.plugin.settings.cardFileNamingFormat);
+			});
 
 		new Setting(containerEl)
 			.setName('Enable Auto-Sync')
-			.setDesc('Automatically sync when Kindle files change (experimental)')
+			.setDesc('Sync automatically when the Kindle is connected or My Clippings.txt changes (desktop only, needs a Kindle Path)')
 			.addToggle(toggle => toggle
 				.setValue(this.plugin.settings.enableAutoSync)
 				.onChange(async (value) => {
 					this.plugin.settings.enableAutoSync = value;
 					await this.plugin.saveSettings();
+					this.plugin.updateAutoSync();
+				}));
+
+		new Setting(containerEl)
+			.setName('Preview Before Sync')
+			.setDesc('Before a manual sync writes anything, list what it would create, update or skip, and let you untick clippings or whole books. Unticked clippings are remembered and not offered again. Automatic syncs never show the preview.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.previewBeforeSync)
+				.onChange(async (value) => {
+					this.plugin.settings.previewBeforeSync = value;
+					await this.plugin.saveSettings();
+				}));
+
+		const ignoredBookCount = Object.keys(this.plugin.settings.ignoredBooks || {}).length;
+		const rejectedCount = Object.keys(this.plugin.settings.rejectedClippings || {}).length;
+		new Setting(containerEl)
+			.setName('Ignore List')
+			.setDesc(ignoredBookCount + rejectedCount > 0
+				? `${ignoredBookCount} ignored books and ${rejectedCount} rejected clippings are left out of every sync.`
+				: 'No books or clippings are ignored. Ignore books from the book picker or the sync preview.')
+			.addButton(button => button
+				.setButtonText('Manage')
+				.onClick(() => {
+					new IgnoreListModal(this.app, this.plugin, () => this.display()).open();
 				}));
 
 		new Setting(containerEl)
 			.setName('Backup Before Sync')
-			.setDesc('Create backup copies before syncing new content')
+			.setDesc('Before a sync changes any cards, snapshot them, the index notes and metadata files it rewrites, and your review history. Use the "Restore Backup" command to roll a sync back.')
 			.addToggle(toggle => toggle
 				.setValue(this.plugin.settings.backupBeforeSync)
 				.onChange(async (value) => {
@@ -1046,6 +1904,18 @@ class KindleCardsSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('Backups to Keep')
+			.setDesc('Older snapshots are deleted when a new one is taken')
+			.addSlider(slider => slider
+				.setLimits(1, 50, 1)
+				.setValue(this.plugin.settings.backupRetention)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.backupRetention = value;
+					await this.plugin.saveSettings();
+				}));
+
 		// UI/UX Preferences Section
 		containerEl.createEl('h2', {text: '🎨 UI/UX Preferences'});
 
@@ -1072,6 +1942,27 @@ class KindleCardsSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('Show Book Covers')
+			.setDesc('Show a cover for each book in the book picker. Covers are images in your vault; books without one get a generated title card.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.showBookCovers)
+				.onChange(async (value) => {
+					this.plugin.settings.showBookCovers = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Covers Folder')
+			.setDesc('Folder of cover images named after their book, e.g. "Dune.jpg" or "Dune - Frank Herbert.png". Leave empty to use a Covers folder inside the output folder. A "cover" field in a book\'s index note frontmatter takes precedence.')
+			.addText(text => text
+				.setPlaceholder(`${this.plugin.settings.outputFolder}/Covers`)
+				.setValue(this.plugin.settings.coversFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.coversFolder = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
 		new Setting(containerEl)
 			.setName('Enable Bulk Operations')
 			.setDesc('Allow bulk editing and deleting of flashcards')
@@ -1119,7 +2010,7 @@ class KindleCardsSettingTab extends PluginSettingTab {
 
 		new Setting(containerEl)
 			.setName('Enable Background Sync')
-			.setDesc('Sync Kindle data in the background (may impact performance)')
+			.setDesc('Run automatic syncs quietly, reporting progress in the status bar instead of notices')
 			.addToggle(toggle => toggle
 				.setValue(this.plugin.settings.enableBackgroundSync)
 				.onChange(async (value) => {
@@ -1129,11 +2020,14 @@ class KindleCardsSettingTab extends PluginSettingTab {
 
 		new Setting(containerEl)
 			.setName('Cache Book Data')
-			.setDesc('Cache book metadata to improve loading times')
+			.setDesc('Keep a summary of each book from the last sync, so the book picker, library index and statistics don\'t regroup every card. Filled in on the next sync.')
 			.addToggle(toggle => toggle
 				.setValue(this.plugin.settings.cacheBookData)
 				.onChange(async (value) => {
 					this.plugin.settings.cacheBookData = value;
+					if (!value) {
+						this.plugin.settings.bookData = {};
+					}
 					await this.plugin.saveSettings();
 				}));
 
@@ -1484,14 +2378,31 @@ class KindleCardsSettingTab extends PluginSettingTab {
 					});
 					
 					if (confirmed) {
-						// Preserve spaced repetition data
+						// Preserve spaced repetition data and sync state
 						const savedSRData = this.plugin.settings.spacedRepetitionData;
+						const savedReviewTrash = this.plugin.settings.reviewTrash;
+						const savedSyncState = this.plugin.settings.syncedClippings;
+						const savedRejected = this.plugin.settings.rejectedClippings;
+						const savedIgnoredBooks = this.plugin.settings.ignoredBooks;
+						const savedCardIdVersion = this.plugin.settings.cardIdVersion;
+						const savedSyncedFile = this.plugin.settings.lastSyncedFile;
 						
 						// Reset to defaults
 						this.plugin.settings = Object.assign({}, DEFAULT_SETTINGS);
 						this.plugin.settings.spacedRepetitionData = savedSRData;
+						this.plugin.settings.reviewTrash = savedReviewTrash;
+						this.plugin.settings.syncedClippings = savedSyncState;
+						this.plugin.settings.rejectedClippings = savedRejected;
+						this.plugin.settings.ignoredBooks = savedIgnoredBooks;
+						this.plugin.settings.cardIdVersion = savedCardIdVersion;
+						// Book summaries and bookmarks start over, so the next sync has to read the whole file
+						this.plugin.settings.lastSyncedFile = savedSyncedFile
+							? { ...savedSyncedFile, parsedOffset: undefined, parsedLines: undefined }
+							: null;
 						
 						await this.plugin.saveSettings();
+						this.plugin.updateAutoSync();
+						this.plugin.cardIndex.invalidate();
 						new Notice('All settings reset to defaults');
 						this.display();
 					}
@@ -1537,6 +2448,7 @@ class KindleCardsSettingTab extends PluginSettingTab {
 					
 					if (confirmed) {
 						this.plugin.settings.spacedRepetitionData = {};
+						this.plugin.settings.reviewTrash = {};
 						if (this.plugin.spacedRepetition) {
 							this.plugin.spacedRepetition = new SpacedRepetitionSystem({}, this.plugin.settings);
 						}
@@ -1546,28 +2458,78 @@ class KindleCardsSettingTab extends PluginSettingTab {
 					}
 				}));		// Show spaced repetition stats if enabled
 		if (this.plugin.settings.enableSpacedRepetition) {
-			const allCardIds = Object.keys(this.plugin.settings.spacedRepetitionData);
-			if (allCardIds.length > 0) {
-				const stats = this.plugin.spacedRepetition.getStats(allCardIds);
+			const reviewStatsEl = containerEl.createEl('div');
+			this.renderReviewStats(reviewStatsEl).catch(error => {
+				console.error('Error showing review statistics:', error);
+			});
+		}
 
-				containerEl.createEl('h3', {text: 'Review Statistics'});
+		// Library totals from the book summaries cached at the last sync
+		const books = Object.values(this.plugin.settings.bookData || {});
+		if (this.plugin.settings.cacheBookData && books.length > 0) {
+			const total = (type: string) => books.reduce((sum, book) => sum + (book.counts[type] || 0), 0);
 
-				const statsContainer = containerEl.createEl('div', {cls: 'srs-stats-container'});
+			containerEl.createEl('h3', {text: 'Library Statistics'});
 
-				const statsItems = [
-					{label: 'Total Cards', value: stats.total},
-					{label: 'Due Today', value: stats.due},
-					{label: 'New Cards', value: stats.new},
-					{label: 'Learning', value: stats.learning}
-				];
+			const statsContainer = containerEl.createEl('div', {cls: 'srs-stats-container'});
 
-				statsItems.forEach(stat => {
-					const statEl = statsContainer.createEl('div', {cls: 'srs-stat-item'});
-					statEl.createEl('span', {text: stat.value.toString(), cls: 'srs-stat-value'});
-					statEl.createEl('span', {text: stat.label, cls: 'srs-stat-label'});
-				});
-			}
+			const statsItems = [
+				{label: 'Books', value: books.length},
+				{label: 'Highlights', value: total('highlight')},
+				{label: 'Notes', value: total('note')},
+				{label: 'Bookmarks', value: total('bookmark')}
+			];
+
+			statsItems.forEach(stat => {
+				const statEl = statsContainer.createEl('div', {cls: 'srs-stat-item'});
+				statEl.createEl('span', {text: stat.value.toString(), cls: 'srs-stat-value'});
+				statEl.createEl('span', {text: stat.label, cls: 'srs-stat-label'});
+			});
+		}
+	}
+
+	/**
+	 * Review counts for the cards in the vault. Review records of deleted cards that haven't been
+	 * moved to the trash yet are left out, the same way review maintenance finds them.
+	 */
+	private async renderReviewStats(containerEl: HTMLElement) {
+		const cards = await this.plugin.cardIndex.getCards();
+		const cardIds = Array.from(new Set(cards.map(card => SpacedRepetitionSystem.getCardId(card))));
+		if (cardIds.length === 0) {
+			return;
 		}
+
+		const stats = this.plugin.spacedRepetition.getStats(cardIds);
+
+		containerEl.createEl('h3', {text: 'Review Statistics'});
+
+		const statsContainer = containerEl.createEl('div', {cls: 'srs-stats-container'});
+
+		const statsItems = [
+			{label: 'Total Cards', value: stats.total},
+			{label: 'Due Today', value: stats.due},
+			{label: 'New Cards', value: stats.new},
+			{label: 'Learning', value: stats.learning}
+		];
+
+		statsItems.forEach(stat => {
+			const statEl = statsContainer.createEl('div', {cls: 'srs-stat-item'});
+			statEl.createEl('span', {text: stat.value.toString(), cls: 'srs-stat-value'});
+			statEl.createEl('span', {text: stat.label, cls: 'srs-stat-label'});
+		});
+	}
+
+	/**
+	 * Split a one-pattern-per-line text area into a list, flagging invalid regular expressions
+	 */
+	private parsePatternList(value: string, inputEl: HTMLTextAreaElement): string[] {
+		const patterns = value.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+		const invalid = ClippingFilter.findInvalidPatterns(patterns);
+
+		inputEl.toggleClass('kindle-cards-invalid-input', invalid.length > 0);
+		inputEl.title = invalid.length > 0 ? `Invalid patterns (ignored during sync): ${invalid.join(', ')}` : '';
+
+		return patterns;
 	}
 }
 
@@ -0,0 +1,150 @@
+import { App, Modal, ButtonComponent, Notice } from 'obsidian';
+import { SpacedRepetitionSystem } from './spaced-repetition';
+import { CardReviewData, IKindleCardsPlugin } from './types';
+
+/**
+ * Lists review history that no longer belongs to a card, and the trash it is moved to,
+ * with actions to trash, restore and purge it
+ */
+export class ReviewMaintenanceModal extends Modal {
+    private static readonly MAX_ROWS = 100;
+
+    private plugin: IKindleCardsPlugin;
+    private orphanedIds: string[];
+    private confirmingPurge = false;
+
+    constructor(app: App, plugin: IKindleCardsPlugin, orphanedIds: string[]) {
+        super(app);
+        this.plugin = plugin;
+        this.orphanedIds = orphanedIds;
+    }
+
+    private get spacedRepetition(): SpacedRepetitionSystem {
+        return this.plugin.spacedRepetition;
+    }
+
+    onOpen() {
+        this.contentEl.addClass('review-maintenance-modal');
+        this.render();
+    }
+
+    private render() {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        contentEl.createEl('h2', { text: 'Review History Maintenance' });
+        this.renderOrphans(contentEl);
+        this.renderTrash(contentEl);
+
+        const footerEl = contentEl.createEl('div', { cls: 'review-maintenance-footer' });
+        new ButtonComponent(footerEl)
+            .setButtonText('Close')
+            .onClick(() => this.close());
+    }
+
+    private renderOrphans(parentEl: HTMLElement) {
+        const sectionEl = parentEl.createEl('div', { cls: 'review-maintenance-section' });
+        sectionEl.createEl('h3', { text: `Orphaned Review Records (${this.orphanedIds.length})` });
+
+        if (this.orphanedIds.length === 0) {
+            sectionEl.createEl('p', { text: 'Every review record belongs to a card in the vault.', cls: 'review-maintenance-empty' });
+            return;
+        }
+
+        sectionEl.createEl('p', {
+            text: 'These records belong to cards that no longer exist. Trashed records come back automatically if their card reappears.',
+            cls: 'review-maintenance-description'
+        });
+
+        const listEl = sectionEl.createEl('div', { cls: 'review-maintenance-list' });
+        this.orphanedIds.slice(0, ReviewMaintenanceModal.MAX_ROWS).forEach(cardId => {
+            this.createRow(listEl, cardId, this.spacedRepetition.getCardData(cardId));
+        });
+        this.createOverflowNote(listEl, this.orphanedIds.length);
+
+        new ButtonComponent(sectionEl)
+            .setButtonText('Move All to Trash')
+            .setCta()
+            .onClick(async () => {
+                const trashed = this.spacedRepetition.trashCards(this.orphanedIds);
+                this.orphanedIds = [];
+                await this.plugin.saveSettings();
+                new Notice(`Moved ${trashed} review records to the trash`);
+                this.render();
+            });
+    }
+
+    private renderTrash(parentEl: HTMLElement) {
+        const trash = this.spacedRepetition.getTrash();
+        const sectionEl = parentEl.createEl('div', { cls: 'review-maintenance-section' });
+        sectionEl.createEl('h3', { text: `Trash (${trash.length})` });
+
+        if (trash.length === 0) {
+            sectionEl.createEl('p', { text: 'The trash is empty.', cls: 'review-maintenance-empty' });
+            return;
+        }
+
+        const listEl = sectionEl.createEl('div', { cls: 'review-maintenance-list' });
+        trash.slice(0, ReviewMaintenanceModal.MAX_ROWS).forEach(entry => {
+            const rowEl = this.createRow(listEl, entry.path || entry.data.cardId, entry.data,
+                `trashed ${new Date(entry.trashedAt).toLocaleDateString()}`);
+
+            new ButtonComponent(rowEl)
+                .setButtonText('Restore')
+                .onClick(async () => {
+                    this.spacedRepetition.restoreCards([entry.data.cardId]);
+                    await this.plugin.saveSettings();
+                    this.render();
+                });
+        });
+        this.createOverflowNote(listEl, trash.length);
+
+        new ButtonComponent(sectionEl)
+            .setButtonText(this.confirmingPurge ? 'Click Again to Purge Permanently' : 'Purge Trash')
+            .setWarning()
+            .onClick(async () => {
+                if (this.plugin.settings.confirmDeletions && !this.confirmingPurge) {
+                    this.confirmingPurge = true;
+                    this.render();
+                    return;
+                }
+
+                const purged = this.spacedRepetition.purgeTrash();
+                this.confirmingPurge = false;
+                await this.plugin.saveSettings();
+                new Notice(`Permanently deleted ${purged} review records`);
+                this.render();
+            });
+    }
+
+    private createRow(listEl: HTMLElement, label: string, data: CardReviewData, extra?: string): HTMLElement {
+        const rowEl = listEl.createEl('div', { cls: 'review-maintenance-row' });
+        const infoEl = rowEl.createEl('div', { cls: 'review-maintenance-info' });
+        infoEl.createEl('div', { text: label, cls: 'review-maintenance-label' });
+
+        const details = [`${data.totalReviews} reviews`];
+        if (data.totalReviews > 0) {
+            details.push(`last reviewed ${data.lastReviewed.toLocaleDateString()}`);
+        }
+        if (extra) {
+            details.push(extra);
+        }
+        infoEl.createEl('div', { text: details.join(' · '), cls: 'review-maintenance-meta' });
+
+        return rowEl;
+    }
+
+    private createOverflowNote(listEl: HTMLElement, total: number) {
+        if (total > ReviewMaintenanceModal.MAX_ROWS) {
+            listEl.createEl('div', {
+                text: `…and ${total - ReviewMaintenanceModal.MAX_ROWS} more`,
+                cls: 'review-maintenance-meta'
+            });
+        }
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
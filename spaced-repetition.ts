@@ -1,4 +1,5 @@
-import { CardReviewData, ReviewResult, SpacedRepetitionStats, KindleCardsSettings } from './types';
+import { CardReviewData, ReviewResult, SpacedRepetitionStats, KindleCardsSettings, KindleClipping, TrashedReview } from './types';
+import { ContentHash } from './content-hash';
 import { DebugLogger } from './logger';
 
 /**
@@ -14,6 +15,7 @@ import { DebugLogger } from './logger';
  */
 export class SpacedRepetitionSystem {
     private reviewData: Map<string, CardReviewData> = new Map();
+    private trash: Map<string, TrashedReview> = new Map();
     private settings: KindleCardsSettings;
 
     constructor(savedData?: Record<string, CardReviewData>, settings?: KindleCardsSettings) {
@@ -32,6 +34,7 @@ export class SpacedRepetitionSystem {
             leechThreshold: 8,
         } as KindleCardsSettings;
         this.loadData(savedData);
+        this.loadTrash(this.settings.reviewTrash);
     }
 
     /**
@@ -75,6 +78,22 @@ export class SpacedRepetitionSystem {
         DebugLogger.log(`Loaded ${this.reviewData.size} cards from saved data`);
     }
 
+    private loadTrash(savedTrash?: Record<string, TrashedReview>): void {
+        if (!savedTrash) return;
+
+        for (const [cardId, entry] of Object.entries(savedTrash)) {
+            if (!entry || !entry.data) continue;
+            this.trash.set(cardId, {
+                ...entry,
+                data: {
+                    ...entry.data,
+                    nextReview: new Date(entry.data.nextReview),
+                    lastReviewed: new Date(entry.data.lastReviewed)
+                }
+            });
+        }
+    }
+
     /**
      * Migrate old difficulty values to new format
      */
@@ -458,7 +477,8 @@ export class SpacedRepetitionSystem {
         let easeCount = 0;
 
         for (const cardId of cardIds) {
-            const data = this.getCardData(cardId);
+            // Unseen cards are counted as new without creating records for them
+            const data = this.reviewData.get(cardId) || this.createNewCardData(cardId);
 
             if (data.buried) continue;
 
@@ -518,13 +538,152 @@ export class SpacedRepetitionSystem {
     }
 
     /**
-     * Generate a unique, stable card ID from clipping data
+     * Export the review trash for persistence (converts Dates to strings)
+     */
+    exportTrash(): Record<string, TrashedReview> {
+        const exported: Record<string, TrashedReview> = {};
+        for (const [cardId, entry] of this.trash) {
+            exported[cardId] = {
+                ...entry,
+                data: {
+                    ...entry.data,
+                    nextReview: entry.data.nextReview.toISOString(),
+                    lastReviewed: entry.data.lastReviewed.toISOString()
+                } as any
+            };
+        }
+        return exported;
+    }
+
+    /**
+     * Review records whose card is not among the given live card IDs
+     */
+    getOrphanedCardIds(liveCardIds: Set<string>): string[] {
+        return Array.from(this.reviewData.keys()).filter(cardId => !liveCardIds.has(cardId));
+    }
+
+    /**
+     * Move review records of deleted cards to the trash. Cards that were never reviewed
+     * have nothing worth keeping and are dropped.
+     */
+    trashCards(cardIds: string[], paths: Record<string, string> = {}): number {
+        const trashedAt = new Date().toISOString();
+        let trashed = 0;
+
+        for (const cardId of cardIds) {
+            const data = this.reviewData.get(cardId);
+            if (!data) continue;
+
+            this.reviewData.delete(cardId);
+            if (data.totalReviews > 0) {
+                this.trash.set(cardId, { data, trashedAt, path: paths[cardId] || null });
+                trashed++;
+            }
+        }
+
+        DebugLogger.log(`Moved review data for ${trashed} cards to the trash`);
+        return trashed;
+    }
+
+    /**
+     * Bring trashed review records back, e.g. when a deleted card is restored or re-synced.
+     * Records are only restored for cards without newer review data.
+     */
+    restoreCards(cardIds: string[]): number {
+        let restored = 0;
+
+        for (const cardId of cardIds) {
+            const entry = this.trash.get(cardId);
+            if (!entry) continue;
+
+            this.trash.delete(cardId);
+            if (!this.reviewData.has(cardId)) {
+                this.reviewData.set(cardId, entry.data);
+                restored++;
+            }
+        }
+
+        return restored;
+    }
+
+    getTrash(): TrashedReview[] {
+        return Array.from(this.trash.values())
+            .sort((a, b) => b.trashedAt.localeCompare(a.trashedAt));
+    }
+
+    /**
+     * Permanently delete trashed review records (all of them when no IDs are given)
+     */
+    purgeTrash(cardIds?: string[]): number {
+        const ids = cardIds || Array.from(this.trash.keys());
+        let purged = 0;
+
+        for (const cardId of ids) {
+            if (this.trash.delete(cardId)) purged++;
+        }
+
+        return purged;
+    }
+
+    /**
+     * Move review history from old card IDs to new ones.
+     * An old ID mapped to several new IDs is copied to each of them; the old entry is removed.
+     */
+    migrateCardIds(idMap: Record<string, string[]>): number {
+        let migrated = 0;
+
+        for (const [oldId, newIds] of Object.entries(idMap)) {
+            const data = this.reviewData.get(oldId);
+            if (!data) continue;
+
+            for (const newId of newIds) {
+                if (newId === oldId || this.reviewData.has(newId)) continue;
+                this.reviewData.set(newId, {
+                    ...data,
+                    cardId: newId,
+                    learningSteps: [...data.learningSteps],
+                    nextReview: new Date(data.nextReview),
+                    lastReviewed: new Date(data.lastReviewed)
+                });
+                migrated++;
+            }
+
+            if (!newIds.includes(oldId)) {
+                this.reviewData.delete(oldId);
+            }
+        }
+
+        DebugLogger.log(`Migrated review data for ${migrated} cards`);
+        return migrated;
+    }
+
+    /**
+     * Get the ID for a clipping: the persistent ID stored in its card file, or a content hash fallback
+     */
+    static getCardId(clipping: KindleClipping): string {
+        if (clipping.cardId) {
+            return clipping.cardId;
+        }
+        return this.generateCardId(clipping.title, clipping.author, clipping.content);
+    }
+
+    /**
+     * Generate a stable card ID from clipping data using the full content
      */
     static generateCardId(title: string, author: string, content: string): string {
         if (!title || !author || !content) {
             throw new Error('Card ID generation requires title, author, and content');
         }
 
+        const normalize = (value: string) => value.replace(/\s+/g, ' ').trim();
+        return ContentHash.digest(`${normalize(title)}|${normalize(author)}|${normalize(content)}`);
+    }
+
+    /**
+     * Card ID scheme used before persistent IDs (first 100 characters, 32-bit hash).
+     * Only needed to migrate existing review history.
+     */
+    static generateLegacyCardId(title: string, author: string, content: string): string {
         const combined = `${title.trim()}|${author.trim()}|${content.substring(0, 100).trim()}`;
         return this.hashString(combined);
     }
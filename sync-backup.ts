@@ -0,0 +1,159 @@
+import { App, TFile, moment, normalizePath } from 'obsidian';
+import { BackupFile, BackupSnapshot, BackupSummary, KindleCardsSettings } from './types';
+import { VaultFolders } from './vault-folders';
+import { DebugLogger } from './logger';
+
+/**
+ * Snapshots of the files a sync writes (cards, index notes, metadata sidecars) and of the
+ * review data, taken before the sync writes anything.
+ *
+ * Each snapshot is one JSON file in the plugin's own folder, outside the vault index, so
+ * backed-up cards are never picked up as cards. Only the files a sync is about to create or
+ * overwrite are stored; restoring puts their old content back and removes files the sync created.
+ */
+export class SyncBackup {
+    private app: App;
+    private backupDir: string;
+
+    constructor(app: App, backupDir: string) {
+        this.app = app;
+        this.backupDir = normalizePath(backupDir);
+    }
+
+    /**
+     * Snapshot the given vault paths and the review and sync state, then prune old snapshots.
+     * Throws if the snapshot can't be written, so the caller can stop before changing anything.
+     */
+    async create(reason: string, paths: string[], settings: KindleCardsSettings): Promise<BackupSummary> {
+        const files: BackupFile[] = [];
+        for (const path of paths) {
+            const file = this.app.vault.getAbstractFileByPath(path);
+            files.push({ path, content: file instanceof TFile ? await this.app.vault.read(file) : null });
+        }
+
+        const created = moment();
+        const snapshot: BackupSnapshot = {
+            id: created.format('YYYY-MM-DD_HH-mm-ss-SSS'),
+            created: created.toISOString(),
+            reason,
+            files,
+            spacedRepetitionData: settings.spacedRepetitionData || {},
+            reviewTrash: settings.reviewTrash || {},
+            syncedClippings: settings.syncedClippings || {}
+        };
+
+        const adapter = this.app.vault.adapter;
+        if (!(await adapter.exists(this.backupDir))) {
+            await adapter.mkdir(this.backupDir);
+        }
+        await adapter.write(this.getSnapshotPath(snapshot.id), JSON.stringify(snapshot));
+        DebugLogger.log(`Backed up ${files.length} files (${reason}):`, snapshot.id);
+
+        await this.prune(settings.backupRetention);
+        return this.summarize(snapshot);
+    }
+
+    /**
+     * Snapshots, newest first
+     */
+    async list(): Promise<BackupSummary[]> {
+        const adapter = this.app.vault.adapter;
+        if (!(await adapter.exists(this.backupDir))) {
+            return [];
+        }
+
+        const summaries: BackupSummary[] = [];
+        for (const id of await this.listIds()) {
+            const snapshot = await this.load(id);
+            if (snapshot) {
+                summaries.push(this.summarize(snapshot));
+            }
+        }
+        return summaries;
+    }
+
+    async load(id: string): Promise<BackupSnapshot | null> {
+        try {
+            return JSON.parse(await this.app.vault.adapter.read(this.getSnapshotPath(id)));
+        } catch (error) {
+            DebugLogger.error(`Could not read backup ${id}:`, error);
+            return null;
+        }
+    }
+
+    /**
+     * Put the snapshot's files back. Files the sync created are moved to the system trash.
+     * Returns the number of files restored or removed; the caller restores the review and sync state.
+     */
+    async restoreFiles(snapshot: BackupSnapshot): Promise<{ restored: number; failed: number }> {
+        let restored = 0;
+        let failed = 0;
+
+        for (const backupFile of snapshot.files) {
+            try {
+                const existing = this.app.vault.getAbstractFileByPath(backupFile.path);
+                if (backupFile.content === null) {
+                    if (existing instanceof TFile) {
+                        await this.app.vault.trash(existing, true);
+                        restored++;
+                    }
+                } else if (existing instanceof TFile) {
+                    await this.app.vault.modify(existing, backupFile.content);
+                    restored++;
+                } else {
+                    await VaultFolders.ensureExists(this.app, backupFile.path.substring(0, backupFile.path.lastIndexOf('/')));
+                    await this.app.vault.create(backupFile.path, backupFile.content);
+                    restored++;
+                }
+            } catch (error) {
+                DebugLogger.error(`Failed to restore ${backupFile.path}:`, error);
+                failed++;
+            }
+        }
+
+        return { restored, failed };
+    }
+
+    async delete(id: string): Promise<void> {
+        const path = this.getSnapshotPath(id);
+        if (await this.app.vault.adapter.exists(path)) {
+            await this.app.vault.adapter.remove(path);
+        }
+    }
+
+    /**
+     * Delete all but the newest `retention` snapshots
+     */
+    private async prune(retention: number) {
+        const ids = await this.listIds();
+        for (const id of ids.slice(Math.max(1, retention))) {
+            await this.delete(id);
+            DebugLogger.log('Removed old backup', id);
+        }
+    }
+
+    private async listIds(): Promise<string[]> {
+        const { files } = await this.app.vault.adapter.list(this.backupDir);
+        return files
+            .map(path => path.substring(path.lastIndexOf('/') + 1))
+            .filter(name => name.endsWith('.json'))
+            .map(name => name.slice(0, -'.json'.length))
+            .sort()
+            .reverse();
+    }
+
+    private summarize(snapshot: BackupSnapshot): BackupSummary {
+        const added = snapshot.files.filter(file => file.content === null).length;
+        return {
+            id: snapshot.id,
+            created: snapshot.created,
+            reason: snapshot.reason,
+            changed: snapshot.files.length - added,
+            added
+        };
+    }
+
+    private getSnapshotPath(id: string): string {
+        return normalizePath(`${this.backupDir}/${id}.json`);
+    }
+}
@@ -0,0 +1,352 @@
+import { App, TFile, getAllTags, normalizePath } from 'obsidian';
+import { KindleParser } from './kindle-parser';
+import { FlashcardGenerator } from './flashcard-generator';
+import { ContentHash } from './content-hash';
+import { Frontmatter } from './frontmatter';
+import { FileNameTemplate, FileNameContext } from './file-name-template';
+import { KindleClipping, KindleCardsSettings, SyncedClippingRecord, SyncPlan, SyncPlanItem, SyncSummary } from './types';
+import { VaultFolders } from './vault-folders';
+import { DebugLogger } from './logger';
+
+/**
+ * Incremental, idempotent sync of parsed clippings into card files.
+ *
+ * Every clipping gets a stable identity (book, type, location or page and the date it was
+ * added, plus an ordinal when several clippings share all of these). The identity is mapped to the
+ * card file written for it in `settings.syncedClippings`, so re-running a sync only touches
+ * files whose rendered content actually changed.
+ */
+export class SyncEngine {
+    private app: App;
+    private settings: KindleCardsSettings;
+
+    constructor(app: App, settings: KindleCardsSettings) {
+        this.app = app;
+        this.settings = settings;
+    }
+
+    /**
+     * Build identities for a list of clippings, in order.
+     * Clippings sharing the same book, type, location, page and date are numbered by appearance,
+     * which is stable because My Clippings.txt is append-only. When only the end of the file
+     * was parsed, numbering continues after the identities in `existingKeys`, skipping any whose
+     * card ID is in `takenCardIds` (cards in the vault without a sync record).
+     */
+    static getClippingKeys(clippings: KindleClipping[], existingKeys: string[] = [], takenCardIds: Set<string> = new Set()): string[] {
+        const seen = new Map<string, number>();
+        existingKeys.forEach(key => {
+            const match = key.match(/^(.*)#(\d+)$/);
+            const baseKey = match ? match[1] : key;
+            seen.set(baseKey, Math.max(seen.get(baseKey) || 0, match ? parseInt(match[2], 10) : 1));
+        });
+
+        return clippings.map(clipping => {
+            const baseKey = this.getBaseKey(clipping);
+            const keyFor = (occurrence: number) => occurrence === 1 ? baseKey : `${baseKey}#${occurrence}`;
+            let occurrence = (seen.get(baseKey) || 0) + 1;
+            while (takenCardIds.has(this.createCardId(keyFor(occurrence)))) {
+                occurrence++;
+            }
+            seen.set(baseKey, occurrence);
+            return keyFor(occurrence);
+        });
+    }
+
+    /**
+     * Give every parsed clipping its identity. This runs on everything parsed from My Clippings.txt,
+     * before duplicates are merged or filters applied, so the numbering doesn't shift when those
+     * drop a clipping. With `resumed`, numbering continues after the synced identities and the
+     * `cards` already in the vault, which belong to entries parsed at earlier syncs.
+     */
+    identify(clippings: KindleClipping[], resumed = false, cards: KindleClipping[] = []): KindleClipping[] {
+        const keys = resumed
+            ? SyncEngine.getClippingKeys(clippings, Object.keys(this.settings.syncedClippings || {}),
+                new Set(cards.map(card => card.cardId).filter((cardId): cardId is string => !!cardId)))
+            : SyncEngine.getClippingKeys(clippings);
+        return clippings.map((clipping, i) => ({ ...clipping, syncKey: keys[i] }));
+    }
+
+    /**
+     * Persistent card ID for a newly synced clipping. Derived from the clipping identity
+     * rather than its text, so fixing a typo in the highlight keeps the same ID.
+     */
+    static createCardId(key: string): string {
+        return ContentHash.digest(`clipping|${key}`);
+    }
+
+    /**
+     * Folder a card belongs in: `outputFolder/<Author>/<Book>` with author folders,
+     * `outputFolder/<Book>` when grouping by book, otherwise `outputFolder` itself
+     */
+    static getCardFolder(clipping: Pick<KindleClipping, 'title' | 'author' | 'authors'>, settings: KindleCardsSettings): string {
+        const parts = [settings.outputFolder];
+
+        if (settings.useBookAuthorFolders) {
+            const authors = clipping.authors || KindleParser.normalizeAuthors(clipping.author || '');
+            parts.push(FlashcardGenerator.sanitizeFolderName(authors.length > 0 ? authors.join(', ') : clipping.author));
+        }
+        if (settings.useBookAuthorFolders || settings.groupCardsByBook) {
+            parts.push(FlashcardGenerator.sanitizeFolderName(clipping.title));
+        }
+
+        return normalizePath(parts.join('/'));
+    }
+
+    private static getBaseKey(clipping: KindleClipping): string {
+        const normalize = (value: string) => (value || '').toLowerCase().replace(/\s+/g, ' ').trim();
+        return [
+            normalize(clipping.title),
+            normalize(clipping.author),
+            normalize(clipping.type),
+            normalize(clipping.location),
+            normalize(clipping.page || ''),
+            normalize(clipping.date)
+        ].join('|');
+    }
+
+    /**
+     * Compare clippings against the previous sync state and the vault without writing anything.
+     * Clippings keep the identity given by `identify`; any without one are numbered here.
+     * With `resumed`, the clippings are only those appended since the last sync: file name
+     * indexes continue after the synced clippings, and nothing is reported as orphaned.
+     */
+    async plan(clippings: KindleClipping[], resumed = false): Promise<SyncPlan> {
+        const records = this.settings.syncedClippings || {};
+        const numbered = SyncEngine.getClippingKeys(clippings);
+        const keys = clippings.map((clipping, i) => clipping.syncKey || numbered[i]);
+        const contexts = SyncEngine.getFileNameContexts(clippings, keys, resumed ? Object.values(records) : []);
+        const claimedPaths = new Set<string>();
+        const items: SyncPlanItem[] = [];
+
+        // Paths of tracked clippings are reserved first so new clippings never take them over
+        for (const record of Object.values(records)) {
+            if (this.app.vault.getAbstractFileByPath(record.path) instanceof TFile) {
+                claimedPaths.add(record.path);
+            }
+        }
+
+        for (let i = 0; i < clippings.length; i++) {
+            const clipping = clippings[i];
+            const key = keys[i];
+            const record = records[key];
+
+            if (record && claimedPaths.has(record.path)) {
+                const cardId = this.readCardId(record.path) || record.cardId || SyncEngine.createCardId(key);
+                const content = FlashcardGenerator.generateCardFile(clipping, this.settings.cardTemplate, cardId);
+                const contentHash = ContentHash.digest(content);
+                items.push({
+                    key,
+                    cardId,
+                    clipping,
+                    action: record.contentHash === contentHash ? 'unchanged' : 'updated',
+                    path: record.path,
+                    content,
+                    contentHash
+                });
+                continue;
+            }
+
+            // Cards written before folder grouping sit flat in the output folder; keep them where they are
+            const flatPath = this.getLegacyPath(clipping);
+            let path = !claimedPaths.has(flatPath) && this.app.vault.getAbstractFileByPath(flatPath) instanceof TFile
+                ? flatPath
+                : this.resolveFreePath(clipping, contexts[i], claimedPaths);
+            let adopted: SyncPlanItem | null = null;
+
+            // Untracked file at the target path: a card written by an older version of the plugin is
+            // adopted, anything else (e.g. the user's own note) is left alone and the next free path is tried
+            let existing = this.app.vault.getAbstractFileByPath(path);
+            while (existing) {
+                claimedPaths.add(path);
+                if (existing instanceof TFile) {
+                    const existingContent = await this.app.vault.read(existing);
+                    if (this.isCardFile(existing, existingContent)) {
+                        const cardId = Frontmatter.split(existingContent).data[FlashcardGenerator.CARD_ID_FIELD] || SyncEngine.createCardId(key);
+                        const content = FlashcardGenerator.generateCardFile(clipping, this.settings.cardTemplate, cardId);
+                        const contentHash = ContentHash.digest(content);
+                        adopted = {
+                            key,
+                            cardId,
+                            clipping,
+                            action: ContentHash.digest(existingContent) === contentHash ? 'unchanged' : 'updated',
+                            path,
+                            content,
+                            contentHash
+                        };
+                        break;
+                    }
+                }
+                path = this.resolveFreePath(clipping, contexts[i], claimedPaths);
+                existing = this.app.vault.getAbstractFileByPath(path);
+            }
+            claimedPaths.add(path);
+
+            if (adopted) {
+                items.push(adopted);
+                continue;
+            }
+
+            const cardId = SyncEngine.createCardId(key);
+            const content = FlashcardGenerator.generateCardFile(clipping, this.settings.cardTemplate, cardId);
+            items.push({ key, cardId, clipping, action: 'new', path, content, contentHash: ContentHash.digest(content) });
+        }
+
+        // A resumed sync didn't see the earlier entries, so it can't tell which of them are gone
+        const currentKeys = new Set(keys);
+        const orphanedKeys = resumed ? [] : Object.keys(records).filter(key =>
+            !currentKeys.has(key) && this.app.vault.getAbstractFileByPath(records[key].path) instanceof TFile
+        );
+
+        return { items, orphanedKeys };
+    }
+
+    /**
+     * Write the planned changes and record the new sync state
+     */
+    async execute(plan: SyncPlan): Promise<SyncSummary> {
+        const summary: SyncSummary = { created: 0, updated: 0, unchanged: 0, orphaned: plan.orphanedKeys.length, failed: 0 };
+        const records: Record<string, SyncedClippingRecord> = { ...(this.settings.syncedClippings || {}) };
+        const now = new Date().toISOString();
+
+        await VaultFolders.ensureExists(this.app, this.settings.outputFolder);
+
+        for (const item of plan.items) {
+            try {
+                if (item.action === 'new') {
+                    await VaultFolders.ensureExists(this.app, item.path.substring(0, item.path.lastIndexOf('/')));
+                    await this.app.vault.create(item.path, item.content);
+                    summary.created++;
+                } else if (item.action === 'updated') {
+                    const file = this.app.vault.getAbstractFileByPath(item.path);
+                    if (file instanceof TFile) {
+                        await this.app.vault.modify(file, item.content);
+                    } else {
+                        await this.app.vault.create(item.path, item.content);
+                    }
+                    summary.updated++;
+                } else {
+                    summary.unchanged++;
+                }
+
+                const previous = records[item.key];
+                records[item.key] = {
+                    path: item.path,
+                    cardId: item.cardId,
+                    contentHash: item.contentHash,
+                    lastSynced: item.action === 'unchanged' && previous ? previous.lastSynced : now,
+                    title: item.clipping.title,
+                    author: item.clipping.author
+                };
+            } catch (error) {
+                summary.failed++;
+                DebugLogger.error(`Failed to write card for clipping ${item.key}:`, error);
+            }
+        }
+
+        if (plan.orphanedKeys.length > 0) {
+            DebugLogger.log('Orphaned clippings (no longer in My Clippings.txt):', plan.orphanedKeys);
+        }
+
+        this.settings.syncedClippings = records;
+        return summary;
+    }
+
+    async sync(clippings: KindleClipping[]): Promise<SyncSummary> {
+        const plan = await this.plan(clippings);
+        return this.execute(plan);
+    }
+
+    static formatSummary(summary: SyncSummary): string {
+        const parts = [
+            `${summary.created} new`,
+            `${summary.updated} updated`,
+            `${summary.unchanged} unchanged`,
+            `${summary.orphaned} orphaned`
+        ];
+        if (summary.failed > 0) {
+            parts.push(`${summary.failed} failed`);
+        }
+        return `Kindle sync complete: ${parts.join(', ')}`;
+    }
+
+    /**
+     * `{{index}}` and `{{hash}}` values for each clipping. The index counts clippings per book
+     * in file order, and the hash comes from the clipping identity, so both are stable across syncs.
+     * When only the end of the file was parsed, indexes continue after the `existing` records.
+     */
+    static getFileNameContexts(clippings: KindleClipping[], keys: string[], existing: SyncedClippingRecord[] = []): FileNameContext[] {
+        const bookCounts = new Map<string, number>();
+        existing.forEach(record => {
+            const bookKey = `${record.title}|${record.author}`.toLowerCase();
+            bookCounts.set(bookKey, (bookCounts.get(bookKey) || 0) + 1);
+        });
+
+        return clippings.map((clipping, i) => {
+            const bookKey = `${clipping.title}|${clipping.author}`.toLowerCase();
+            const index = (bookCounts.get(bookKey) || 0) + 1;
+            bookCounts.set(bookKey, index);
+            return { index, hash: SyncEngine.createCardId(keys[i]).substring(0, 8) };
+        });
+    }
+
+    /**
+     * Pick a card path for a clipping that is not already used by another clipping in this sync.
+     * A clash first falls back to the name plus the clipping's hash, which doesn't depend on
+     * sync order, and only then to a counter.
+     */
+    private resolveFreePath(clipping: KindleClipping, context: FileNameContext, claimedPaths: Set<string>): string {
+        const folder = SyncEngine.getCardFolder(clipping, this.settings);
+        const baseName = FileNameTemplate.render(this.settings.cardFileNamingFormat, clipping, context);
+
+        let path = normalizePath(`${folder}/${baseName}.md`);
+        if (!claimedPaths.has(path)) {
+            return path;
+        }
+
+        path = normalizePath(`${folder}/${baseName} (${context.hash}).md`);
+        let counter = 2;
+        while (claimedPaths.has(path)) {
+            path = normalizePath(`${folder}/${baseName} (${context.hash}-${counter}).md`);
+            counter++;
+        }
+
+        return path;
+    }
+
+    /**
+     * Where versions without folder grouping or naming templates wrote a clipping's card.
+     * Those wrote every page-only clipping of a book to the same "Unknown" name, so such
+     * clippings are told apart by their page instead.
+     */
+    private getLegacyPath(clipping: KindleClipping): string {
+        const position = clipping.location === 'Unknown' && clipping.page ? `page ${clipping.page}` : clipping.location;
+        const baseName = FlashcardGenerator.sanitizeFileName(`${clipping.title} - ${position}`);
+        return normalizePath(`${this.settings.outputFolder}/${baseName}.md`);
+    }
+
+    /**
+     * Whether an untracked file is a card: it carries a card ID, or one of the tags cards were
+     * marked with before card IDs existed
+     */
+    private isCardFile(file: TFile, content: string): boolean {
+        if (Frontmatter.split(content).data[FlashcardGenerator.CARD_ID_FIELD]) {
+            return true;
+        }
+
+        const cache = this.app.metadataCache.getFileCache(file);
+        const tags = cache ? getAllTags(cache) || [] : [];
+        return tags.some(tag => FlashcardGenerator.CARD_TAGS.includes(tag.toLowerCase()));
+    }
+
+    /**
+     * Read the persistent card ID from a card file's cached frontmatter
+     */
+    private readCardId(path: string): string | null {
+        const file = this.app.vault.getAbstractFileByPath(path);
+        if (!(file instanceof TFile)) return null;
+
+        const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+        const cardId = frontmatter?.[FlashcardGenerator.CARD_ID_FIELD];
+        return typeof cardId === 'string' && cardId ? cardId : null;
+    }
+}
@@ -0,0 +1,260 @@
+import { App, Modal, ButtonComponent } from 'obsidian';
+import { BookMetadataStore } from './book-metadata';
+import { FlashcardGenerator } from './flashcard-generator';
+import { KindleParser } from './kindle-parser';
+import { KindleClipping, SyncPreviewAction, SyncPreviewEntry } from './types';
+
+interface PreviewBook {
+    key: string;
+    title: string;
+    author: string;
+    sample: KindleClipping; // Any clipping of the book, to identify it on the ignore list
+    entries: SyncPreviewEntry[];
+    unchanged: number;
+}
+
+export interface SyncPreviewResult {
+    selected: Set<string>;                // Keys of the clippings to write
+    ignoredBooks: KindleClipping[];       // One clipping per book to add to the ignore list
+}
+
+/**
+ * Shows what a sync would do, book by book, before anything is written. Clippings the sync would
+ * create or update can be unticked individually or per book, and whole books can be put on the
+ * ignore list; duplicates and filtered-out clippings are listed with the reason they are skipped.
+ */
+export class SyncPreviewModal extends Modal {
+    private static readonly ACTION_LABELS: Record<SyncPreviewAction, string> = {
+        new: 'New',
+        updated: 'Update',
+        unchanged: 'Unchanged',
+        duplicate: 'Duplicate',
+        filtered: 'Filtered out'
+    };
+
+    private entries: SyncPreviewEntry[];
+    private selected: Set<string>;
+    private onSubmit: (result: SyncPreviewResult | null) => void;
+    private submitted = false;
+    private submitButton: ButtonComponent;
+    private bookCheckboxes: { checkbox: HTMLInputElement; keys: string[]; bookKey: string }[] = [];
+    private ignoredBooks = new Map<string, KindleClipping>();
+
+    constructor(app: App, entries: SyncPreviewEntry[], onSubmit: (result: SyncPreviewResult | null) => void) {
+        super(app);
+        this.entries = entries;
+        this.selected = new Set(entries.filter(entry => this.isSelectable(entry)).map(entry => entry.key!));
+        this.onSubmit = onSubmit;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.addClass('sync-preview-modal');
+
+        contentEl.createEl('h2', { text: 'Sync Preview' });
+        contentEl.createEl('p', { text: this.formatCounts(), cls: 'sync-preview-subtitle' });
+        contentEl.createEl('p', {
+            text: 'Untick clippings or whole books you don\'t want as cards. Unticked new clippings are remembered and not offered again; unticked updates are skipped for this sync only; ignored books are left out of every sync.',
+            cls: 'sync-preview-description'
+        });
+
+        const listEl = contentEl.createEl('div', { cls: 'sync-preview-list' });
+        this.groupByBook().forEach(book => this.createBookSection(listEl, book));
+
+        const footerEl = contentEl.createEl('div', { cls: 'sync-preview-footer' });
+
+        this.submitButton = new ButtonComponent(footerEl)
+            .setCta()
+            .onClick(() => this.submit({
+                selected: new Set(this.selected),
+                ignoredBooks: Array.from(this.ignoredBooks.values())
+            }));
+        this.updateSubmitButton();
+
+        new ButtonComponent(footerEl)
+            .setButtonText('Cancel Sync')
+            .onClick(() => this.submit(null));
+    }
+
+    private groupByBook(): PreviewBook[] {
+        const books = new Map<string, PreviewBook>();
+
+        for (const entry of this.entries) {
+            const key = BookMetadataStore.getBookKey(entry.clipping);
+            if (!books.has(key)) {
+                books.set(key, {
+                    key,
+                    title: entry.clipping.title,
+                    author: entry.clipping.author,
+                    sample: entry.clipping,
+                    entries: [],
+                    unchanged: 0
+                });
+            }
+
+            const book = books.get(key)!;
+            if (entry.action === 'unchanged') {
+                book.unchanged++;
+            } else {
+                book.entries.push(entry);
+            }
+        }
+
+        // Books where nothing happens are left out
+        const result = Array.from(books.values()).filter(book => book.entries.length > 0);
+        result.forEach(book => book.entries.sort((a, b) => KindleParser.compareByPosition(a.clipping, b.clipping)));
+        return result.sort((a, b) => a.title.localeCompare(b.title));
+    }
+
+    private createBookSection(listEl: HTMLElement, book: PreviewBook) {
+        const bookEl = listEl.createEl('details', { cls: 'sync-preview-book' });
+        const summaryEl = bookEl.createEl('summary', { cls: 'sync-preview-book-header' });
+
+        const keys = book.entries.filter(entry => this.isSelectable(entry)).map(entry => entry.key!);
+        const rowCheckboxes = new Map<string, HTMLInputElement>();
+
+        if (keys.length > 0) {
+            const checkbox = summaryEl.createEl('input', { type: 'checkbox' });
+            checkbox.checked = true;
+            // Ticking the box shouldn't also expand or collapse the book
+            checkbox.onclick = event => event.stopPropagation();
+            checkbox.onchange = () => {
+                keys.forEach(key => {
+                    if (checkbox.checked) {
+                        this.selected.add(key);
+                    } else {
+                        this.selected.delete(key);
+                    }
+                    const rowCheckbox = rowCheckboxes.get(key);
+                    if (rowCheckbox) rowCheckbox.checked = checkbox.checked;
+                });
+                this.refresh();
+            };
+            this.bookCheckboxes.push({ checkbox, keys, bookKey: book.key });
+        }
+
+        summaryEl.createSpan({ text: book.title, cls: 'sync-preview-book-title' });
+        summaryEl.createSpan({ text: this.formatBookCounts(book), cls: 'sync-preview-meta' });
+
+        const ignoreButton = new ButtonComponent(summaryEl)
+            .setButtonText('Ignore Book')
+            .setClass('sync-preview-ignore-btn')
+            .onClick(() => {
+                const ignored = !this.ignoredBooks.has(book.key);
+                if (ignored) {
+                    this.ignoredBooks.set(book.key, book.sample);
+                } else {
+                    this.ignoredBooks.delete(book.key);
+                }
+
+                // Ignored books are written as a whole to the ignore list, not clipping by clipping
+                keys.forEach(key => {
+                    if (ignored) {
+                        this.selected.delete(key);
+                    } else {
+                        this.selected.add(key);
+                    }
+                });
+                rowCheckboxes.forEach(checkbox => {
+                    checkbox.checked = !ignored;
+                    checkbox.disabled = ignored;
+                });
+                bookEl.toggleClass('is-ignored', ignored);
+                ignoreButton.setButtonText(ignored ? 'Don\'t Ignore' : 'Ignore Book');
+                this.refresh();
+            });
+        // Clicking inside the summary would otherwise also expand or collapse the book
+        ignoreButton.buttonEl.addEventListener('click', event => event.preventDefault());
+
+        book.entries.forEach(entry => {
+            const rowEl = bookEl.createEl('label', { cls: `sync-preview-row sync-preview-${entry.action}` });
+
+            if (this.isSelectable(entry)) {
+                const checkbox = rowEl.createEl('input', { type: 'checkbox' });
+                checkbox.checked = this.selected.has(entry.key!);
+                checkbox.onchange = () => {
+                    if (checkbox.checked) {
+                        this.selected.add(entry.key!);
+                    } else {
+                        this.selected.delete(entry.key!);
+                    }
+                    this.refresh();
+                };
+                rowCheckboxes.set(entry.key!, checkbox);
+            }
+
+            rowEl.createSpan({ text: SyncPreviewModal.ACTION_LABELS[entry.action], cls: 'sync-preview-action' });
+
+            const infoEl = rowEl.createDiv({ cls: 'sync-preview-info' });
+            const position = FlashcardGenerator.formatPosition(entry.clipping);
+            const meta = [position, entry.reason].filter(Boolean).join(' · ');
+            if (meta) {
+                infoEl.createDiv({ text: meta, cls: 'sync-preview-meta' });
+            }
+            infoEl.createDiv({ text: this.excerpt(entry.clipping.content), cls: 'sync-preview-text' });
+        });
+    }
+
+    private refresh() {
+        this.bookCheckboxes.forEach(({ checkbox, keys, bookKey }) => {
+            checkbox.disabled = this.ignoredBooks.has(bookKey);
+            const selectedCount = keys.filter(key => this.selected.has(key)).length;
+            checkbox.checked = selectedCount === keys.length;
+            checkbox.indeterminate = selectedCount > 0 && selectedCount < keys.length;
+        });
+        this.updateSubmitButton();
+    }
+
+    private updateSubmitButton() {
+        this.submitButton.setButtonText(`Sync ${this.selected.size} Selected`);
+    }
+
+    private isSelectable(entry: SyncPreviewEntry): boolean {
+        return !!entry.key && (entry.action === 'new' || entry.action === 'updated');
+    }
+
+    private formatCounts(): string {
+        const counts = new Map<SyncPreviewAction, number>();
+        this.entries.forEach(entry => counts.set(entry.action, (counts.get(entry.action) || 0) + 1));
+
+        return (Object.keys(SyncPreviewModal.ACTION_LABELS) as SyncPreviewAction[])
+            .filter(action => counts.get(action))
+            .map(action => `${counts.get(action)} ${SyncPreviewModal.ACTION_LABELS[action].toLowerCase()}`)
+            .join(' · ');
+    }
+
+    private formatBookCounts(book: PreviewBook): string {
+        const parts = [book.author];
+        const created = book.entries.filter(entry => entry.action === 'new').length;
+        const updated = book.entries.filter(entry => entry.action === 'updated').length;
+        const skipped = book.entries.length - created - updated;
+
+        if (created > 0) parts.push(`${created} new`);
+        if (updated > 0) parts.push(`${updated} updated`);
+        if (skipped > 0) parts.push(`${skipped} skipped`);
+        if (book.unchanged > 0) parts.push(`${book.unchanged} unchanged`);
+        return parts.filter(Boolean).join(' · ');
+    }
+
+    private excerpt(content: string): string {
+        const text = content.replace(/\s+/g, ' ').trim();
+        return text.length > 160 ? `${text.substring(0, 160).trimEnd()}…` : text;
+    }
+
+    private submit(result: SyncPreviewResult | null) {
+        this.submitted = true;
+        this.close();
+        this.onSubmit(result);
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        // Closing with Escape or the close button counts as cancelling
+        if (!this.submitted) {
+            this.submitted = true;
+            this.onSubmit(null);
+        }
+    }
+}
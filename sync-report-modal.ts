@@ -0,0 +1,117 @@
+import { App, Modal, ButtonComponent } from 'obsidian';
+import { ParseDiagnostic, ParseDiagnosticReason, SyncReport } from './types';
+
+/**
+ * Shows how the last sync went: what it read and wrote, and the entries of My Clippings.txt it
+ * skipped or only partly understood, with their position in the file and their raw text
+ */
+export class SyncReportModal extends Modal {
+    // Diagnostics shown, and kept with the saved report
+    static readonly MAX_ROWS = 200;
+
+    private static readonly REASON_LABELS: Record<ParseDiagnosticReason, string> = {
+        'missing-header': 'Missing header',
+        'unparseable-metadata': 'Unreadable metadata',
+        'unknown-language': 'Unknown language',
+        'empty-content': 'No text',
+        'clip-limit': 'Clipping limit'
+    };
+
+    private report: SyncReport | null;
+
+    constructor(app: App, report: SyncReport | null) {
+        super(app);
+        this.report = report;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.addClass('sync-report-modal');
+
+        contentEl.createEl('h2', { text: 'Last Sync Report' });
+
+        if (!this.report) {
+            contentEl.createEl('p', { text: 'No sync has run yet.', cls: 'sync-report-empty' });
+        } else {
+            this.renderOverview(contentEl, this.report);
+
+            const counts = this.report.diagnosticCounts;
+            const skipped = this.report.diagnostics.filter(diagnostic => diagnostic.skipped);
+            const partial = this.report.diagnostics.filter(diagnostic => !diagnostic.skipped);
+            this.renderDiagnostics(contentEl, 'Skipped Entries', 'These entries were not synced.', skipped, counts.skipped);
+            this.renderDiagnostics(contentEl, 'Partly Read Entries',
+                'These entries were synced with what could be read, e.g. without a location or date.', partial, counts.partial);
+        }
+
+        const footerEl = contentEl.createEl('div', { cls: 'sync-report-footer' });
+        new ButtonComponent(footerEl)
+            .setButtonText('Close')
+            .onClick(() => this.close());
+    }
+
+    private renderOverview(parentEl: HTMLElement, report: SyncReport) {
+        const outcome = report.outcome === 'completed' ? 'Completed' : report.outcome === 'cancelled' ? 'Cancelled' : 'Failed';
+        parentEl.createEl('p', {
+            text: `${outcome} · ${report.automatic ? 'automatic' : 'manual'} sync · ${new Date(report.started).toLocaleString()}`,
+            cls: 'sync-report-subtitle'
+        });
+        if (report.source) {
+            parentEl.createEl('div', { text: report.source, cls: 'sync-report-meta' });
+        }
+        parentEl.createEl('div', {
+            text: `${report.entries} entries read: ${report.clippings} highlights and notes, ${report.bookmarks} bookmarks`,
+            cls: 'sync-report-meta'
+        });
+        if (report.resumedFrom != null) {
+            parentEl.createEl('div', {
+                text: `Resumed at byte ${report.resumedFrom}; only entries added since the previous sync were read`,
+                cls: 'sync-report-meta'
+            });
+        }
+
+        if (report.messages.length > 0) {
+            const listEl = parentEl.createEl('ul', { cls: 'sync-report-messages' });
+            report.messages.forEach(message => listEl.createEl('li', { text: message }));
+        }
+    }
+
+    /**
+     * A section of diagnostics. Only the first ones are saved with the report, so `total` can be
+     * more than are listed.
+     */
+    private renderDiagnostics(parentEl: HTMLElement, heading: string, description: string, diagnostics: ParseDiagnostic[], total: number) {
+        if (total === 0) {
+            return;
+        }
+
+        const sectionEl = parentEl.createEl('div', { cls: 'sync-report-section' });
+        sectionEl.createEl('h3', { text: `${heading} (${total})` });
+        sectionEl.createEl('p', { text: description, cls: 'sync-report-description' });
+
+        const listEl = sectionEl.createEl('div', { cls: 'sync-report-list' });
+        diagnostics.forEach(diagnostic => this.createRow(listEl, diagnostic));
+        if (total > diagnostics.length) {
+            listEl.createEl('div', {
+                text: `…and ${total - diagnostics.length} more`,
+                cls: 'sync-report-meta'
+            });
+        }
+    }
+
+    private createRow(listEl: HTMLElement, diagnostic: ParseDiagnostic) {
+        const rowEl = listEl.createEl('details', { cls: 'sync-report-row' });
+        const summaryEl = rowEl.createEl('summary');
+        summaryEl.createSpan({ text: SyncReportModal.REASON_LABELS[diagnostic.reason], cls: 'sync-report-reason' });
+
+        const position = [`line ${diagnostic.line}`, `byte ${diagnostic.offset}`, diagnostic.title, diagnostic.location ? `location ${diagnostic.location}` : ''];
+        summaryEl.createSpan({ text: position.filter(Boolean).join(' · '), cls: 'sync-report-meta' });
+
+        rowEl.createDiv({ text: diagnostic.message, cls: 'sync-report-message' });
+        rowEl.createEl('pre', { text: diagnostic.raw, cls: 'sync-report-raw' });
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
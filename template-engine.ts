@@ -0,0 +1,304 @@
+import { moment } from 'obsidian';
+
+/**
+ * Text with the date it describes, e.g. a Kindle "Added on" string and its parsed date.
+ * Renders as the original text, but date filters use the parsed date.
+ */
+export interface DatedText {
+    text: string;
+    date: Date | null;
+}
+
+export type TemplateValue = string | string[] | Date | DatedText | null | undefined;
+
+export interface TemplateFilter {
+    name: string;
+    args: string[];
+}
+
+export type TemplateNode =
+    | { type: 'text'; value: string }
+    | { type: 'variable'; name: string; filters: TemplateFilter[]; source: string }
+    | { type: 'if'; name: string; negate: boolean; then: TemplateNode[]; else: TemplateNode[] };
+
+/**
+ * Small Handlebars-like template language for card templates:
+ *
+ * - `{{name}}`, with filters: `{{author|lower}}`, `{{date|format:"YYYY-MM-DD"}}`, `{{content|truncate:200}}`
+ * - Conditional sections: `{{#if note}}…{{else}}…{{/if}}` and `{{#unless page}}…{{/unless}}`
+ * - `\{{` for a literal `{{`
+ *
+ * Values are inserted as-is; the `escape` filter escapes Markdown-sensitive characters.
+ */
+export class TemplateEngine {
+    static readonly FILTERS = ['lower', 'upper', 'trim', 'truncate', 'format', 'escape', 'default', 'join', 'yaml'];
+
+    /**
+     * Parse a template, returning a syntax error message (with line number) instead of throwing
+     */
+    static parse(template: string): { nodes: TemplateNode[]; error: string | null } {
+        const root: TemplateNode[] = [];
+        const stack: { node: Extract<TemplateNode, { type: 'if' }>; keyword: string; inElse: boolean; index: number }[] = [];
+        const current = () => {
+            const top = stack[stack.length - 1];
+            return top ? (top.inElse ? top.node.else : top.node.then) : root;
+        };
+        const fail = (message: string, index: number) => ({
+            nodes: [] as TemplateNode[],
+            error: `Line ${template.substring(0, index).split('\n').length}: ${message}`
+        });
+
+        let text = '';
+        let position = 0;
+
+        while (position < template.length) {
+            const open = template.indexOf('{{', position);
+            if (open === -1) {
+                text += template.substring(position);
+                break;
+            }
+
+            // Escaped braces are kept literally
+            if (open > 0 && template[open - 1] === '\\') {
+                text += template.substring(position, open - 1) + '{{';
+                position = open + 2;
+                continue;
+            }
+
+            text += template.substring(position, open);
+            const close = template.indexOf('}}', open + 2);
+            if (close === -1) {
+                return fail('"{{" is never closed', open);
+            }
+
+            if (text) {
+                current().push({ type: 'text', value: text });
+                text = '';
+            }
+
+            const tag = template.substring(open + 2, close).trim();
+            position = close + 2;
+
+            const blockMatch = tag.match(/^#(if|unless)\s+([A-Za-z]\w*)$/);
+            if (blockMatch) {
+                const node: Extract<TemplateNode, { type: 'if' }> = {
+                    type: 'if',
+                    name: blockMatch[2],
+                    negate: blockMatch[1] === 'unless',
+                    then: [],
+                    else: []
+                };
+                current().push(node);
+                stack.push({ node, keyword: blockMatch[1], inElse: false, index: open });
+                continue;
+            }
+
+            if (tag === 'else') {
+                const top = stack[stack.length - 1];
+                if (!top || top.inElse) {
+                    return fail('{{else}} outside an {{#if}} section', open);
+                }
+                top.inElse = true;
+                continue;
+            }
+
+            const closeMatch = tag.match(/^\/(if|unless)$/);
+            if (closeMatch) {
+                const top = stack.pop();
+                if (!top) {
+                    return fail(`{{/${closeMatch[1]}}} without a matching {{#${closeMatch[1]}}}`, open);
+                }
+                if (top.keyword !== closeMatch[1]) {
+                    return fail(`{{/${closeMatch[1]}}} closes {{#${top.keyword}}}`, open);
+                }
+                continue;
+            }
+
+            if (tag.startsWith('#') || tag.startsWith('/')) {
+                return fail(`Unknown section "{{${tag}}}"; use {{#if name}} or {{#unless name}}`, open);
+            }
+
+            const variable = this.parseVariable(tag);
+            if (typeof variable === 'string') {
+                return fail(variable, open);
+            }
+            current().push({ ...variable, source: template.substring(open, close + 2) });
+        }
+
+        if (text) {
+            current().push({ type: 'text', value: text });
+        }
+
+        const unclosed = stack.pop();
+        if (unclosed) {
+            return fail(`{{#${unclosed.keyword} ${unclosed.node.name}}} is never closed`, unclosed.index);
+        }
+
+        return { nodes: root, error: null };
+    }
+
+    /**
+     * Check syntax, variable names and filter names. Returns an error message, or null when valid.
+     */
+    static validate(template: string, variables: string[]): string | null {
+        const { nodes, error } = this.parse(template);
+        if (error) {
+            return error;
+        }
+
+        const problems: string[] = [];
+        this.walk(nodes, node => {
+            if (node.type === 'text') return;
+            if (!variables.includes(node.name)) {
+                problems.push(`Unknown placeholder "${node.name}"`);
+            }
+            if (node.type === 'variable') {
+                node.filters
+                    .filter(filter => !this.FILTERS.includes(filter.name))
+                    .forEach(filter => problems.push(`Unknown filter "${filter.name}"`));
+            }
+        });
+
+        return problems.length > 0 ? problems.filter((problem, i) => problems.indexOf(problem) === i).join('; ') : null;
+    }
+
+    static render(nodes: TemplateNode[], context: Record<string, TemplateValue>): string {
+        return nodes.map(node => {
+            switch (node.type) {
+                case 'text':
+                    return node.value;
+                case 'if':
+                    return this.render(this.isTruthy(context[node.name]) !== node.negate ? node.then : node.else, context);
+                case 'variable':
+                    // Unknown placeholders are left in place, as plain replacement always did
+                    if (!(node.name in context)) {
+                        return node.source;
+                    }
+                    return this.toText(node.filters.reduce((value, filter) => this.applyFilter(value, filter), context[node.name]));
+            }
+        }).join('');
+    }
+
+    /**
+     * Whether a template refers to a variable anywhere, including in conditions
+     */
+    static usesVariable(nodes: TemplateNode[], name: string): boolean {
+        let found = false;
+        this.walk(nodes, node => {
+            if (node.type !== 'text' && node.name === name) found = true;
+        });
+        return found;
+    }
+
+    private static parseVariable(tag: string): { type: 'variable'; name: string; filters: TemplateFilter[] } | string {
+        const parts = this.splitOutsideQuotes(tag, '|');
+        const name = parts[0].trim();
+        if (!/^[A-Za-z]\w*$/.test(name)) {
+            return `"{{${tag}}}" is not a valid placeholder`;
+        }
+
+        const filters: TemplateFilter[] = [];
+        for (const part of parts.slice(1)) {
+            const match = part.trim().match(/^([A-Za-z]\w*)(?::([\s\S]*))?$/);
+            if (!match) {
+                return `"${part.trim()}" is not a valid filter`;
+            }
+
+            const args = match[2] !== undefined ? this.splitOutsideQuotes(match[2], ',').map(arg => this.unquote(arg.trim())) : [];
+            if (args.some(arg => arg === null)) {
+                return `Unterminated quote in filter "${part.trim()}"`;
+            }
+            filters.push({ name: match[1], args: args as string[] });
+        }
+
+        return { type: 'variable', name, filters };
+    }
+
+    private static splitOutsideQuotes(value: string, separator: string): string[] {
+        const parts: string[] = [];
+        let quote: string | null = null;
+        let start = 0;
+
+        for (let i = 0; i < value.length; i++) {
+            const char = value[i];
+            if (quote) {
+                if (char === quote) quote = null;
+            } else if (char === '"' || char === '\'') {
+                quote = char;
+            } else if (char === separator) {
+                parts.push(value.substring(start, i));
+                start = i + 1;
+            }
+        }
+        parts.push(value.substring(start));
+
+        return parts;
+    }
+
+    private static unquote(arg: string): string | null {
+        const quote = arg[0];
+        if (quote === '"' || quote === '\'') {
+            return arg.length >= 2 && arg.endsWith(quote) ? arg.slice(1, -1) : null;
+        }
+        return arg;
+    }
+
+    private static walk(nodes: TemplateNode[], visit: (node: TemplateNode) => void) {
+        for (const node of nodes) {
+            visit(node);
+            if (node.type === 'if') {
+                this.walk(node.then, visit);
+                this.walk(node.else, visit);
+            }
+        }
+    }
+
+    private static isTruthy(value: TemplateValue): boolean {
+        if (Array.isArray(value)) return value.length > 0;
+        if (value instanceof Date) return !isNaN(value.getTime());
+        return this.toText(value).trim().length > 0;
+    }
+
+    private static toText(value: TemplateValue): string {
+        if (value === null || value === undefined) return '';
+        if (Array.isArray(value)) return value.join(', ');
+        if (value instanceof Date) return moment(value).format('YYYY-MM-DD HH:mm');
+        if (typeof value === 'object') return value.text;
+        return String(value);
+    }
+
+    private static applyFilter(value: TemplateValue, filter: TemplateFilter): TemplateValue {
+        const [arg] = filter.args;
+
+        switch (filter.name) {
+            case 'lower':
+                return this.toText(value).toLowerCase();
+            case 'upper':
+                return this.toText(value).toUpperCase();
+            case 'trim':
+                return this.toText(value).trim();
+            case 'truncate': {
+                const text = this.toText(value);
+                const length = parseInt(arg, 10);
+                return !isNaN(length) && text.length > length ? `${text.substring(0, length).trimEnd()}…` : text;
+            }
+            case 'format': {
+                const date = value instanceof Date ? value
+                    : value && typeof value === 'object' && !Array.isArray(value) ? value.date
+                    : null;
+                return date ? moment(date).format(arg || 'YYYY-MM-DD') : value;
+            }
+            case 'escape':
+                return this.toText(value).replace(/[\\`*_[\]<>#|~=$]/g, '\\$&');
+            case 'default':
+                return this.isTruthy(value) ? value : (arg || '');
+            case 'join':
+                return Array.isArray(value) ? value.join(arg !== undefined ? arg : ', ') : value;
+            case 'yaml':
+                // A JSON string is a valid double-quoted YAML scalar
+                return JSON.stringify(this.toText(value));
+            default:
+                return value;
+        }
+    }
+}
@@ -0,0 +1,67 @@
+import { ClippingFilter } from '../clipping-filter';
+import { KindleClipping } from '../types';
+import { createSettings } from './helpers';
+
+function clipping(type: string, content: string, note?: string): KindleClipping {
+    return { title: 'Deep Work', author: 'Cal Newport', type, location: '100-101', date: 'Monday', content, note };
+}
+
+describe('ClippingFilter.apply', () => {
+    const settings = createSettings({ includeHighlightedText: true, includeBookNotes: true });
+
+    it('drops highlights or notes when they are turned off, with the reason', () => {
+        const clippings = [clipping('Highlight', 'A highlight', 'Its note'), clipping('Note', 'A standalone note')];
+
+        const withoutNotes = ClippingFilter.apply(clippings, { ...settings, includeBookNotes: false });
+        const withoutHighlights = ClippingFilter.apply(clippings, { ...settings, includeHighlightedText: false });
+
+        expect(withoutNotes.clippings).toEqual([{ ...clippings[0], note: undefined }]);
+        expect(withoutNotes.report.notesExcluded).toBe(1);
+        expect(withoutNotes.excluded.map(item => item.reason)).toEqual(['Notes are turned off']);
+        expect(withoutHighlights.clippings).toEqual([clippings[1]]);
+        expect(withoutHighlights.report.highlightsExcluded).toBe(1);
+    });
+
+    it('counts what each rule drops', () => {
+        const { clippings, report } = ClippingFilter.apply([
+            clipping('Highlight', 'Tiny'),
+            clipping('Highlight', 'Chapter 3 begins here'),
+            clipping('Highlight', 'Deep work is valuable'),
+            clipping('Highlight', 'Shallow work is easy')
+        ], { ...settings, minimumContentLength: 5, excludePatterns: ['^chapter \\d+'], includeOnlyPatterns: ['work'] });
+
+        expect(clippings.map(item => item.content)).toEqual(['Deep work is valuable', 'Shallow work is easy']);
+        expect(report).toMatchObject({ tooShort: 1, excludedByPattern: 1, notIncludedByPattern: 0 });
+    });
+
+    it('keeps only clippings matching an include pattern', () => {
+        const { clippings, report } = ClippingFilter.apply([
+            clipping('Highlight', 'Deep work is valuable'),
+            clipping('Highlight', 'Attention residue')
+        ], { ...settings, includeOnlyPatterns: ['deep'] });
+
+        expect(clippings.map(item => item.content)).toEqual(['Deep work is valuable']);
+        expect(report.notIncludedByPattern).toBe(1);
+    });
+
+    it('truncates long clippings on a word boundary', () => {
+        const { clippings, report } = ClippingFilter.apply([
+            clipping('Highlight', 'Clarity about what matters provides clarity about what does not')
+        ], { ...settings, maximumContentLength: 30 });
+
+        expect(clippings[0].content).toBe('Clarity about what matters…');
+        expect(report.truncated).toBe(1);
+    });
+
+    it('skips invalid patterns instead of failing, and reports them', () => {
+        const { clippings, report } = ClippingFilter.apply([clipping('Highlight', 'Deep work is valuable')], {
+            ...settings,
+            excludePatterns: ['(unclosed', 'shallow']
+        });
+
+        expect(clippings).toHaveLength(1);
+        expect(report.invalidPatterns).toEqual(['(unclosed']);
+        expect(ClippingFilter.formatReport(report)).toBe('Ignored invalid patterns: (unclosed');
+        expect(ClippingFilter.findInvalidPatterns(['[a-', 'ok'])).toEqual(['[a-']);
+    });
+});
@@ -0,0 +1,58 @@
+import { ClippingsWatcher } from '../clippings-watcher';
+import { KindleSource } from '../kindle-source';
+import { ClippingsFileState } from '../types';
+
+const PATH = '/Volumes/Kindle/documents/My Clippings.txt';
+
+describe('ClippingsWatcher.check', () => {
+    let stats: { path: string; size: number; modified: number } | null;
+    let synced: ClippingsFileState | null;
+    let onChange: jest.Mock;
+    let watcher: ClippingsWatcher;
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        stats = { path: PATH, size: 100, modified: 1000 };
+        synced = null;
+        onChange = jest.fn();
+        jest.spyOn(KindleSource, 'getFileStats').mockImplementation(async () => stats);
+        watcher = new ClippingsWatcher(() => PATH, () => synced, onChange);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        jest.useRealTimers();
+    });
+
+    async function check() {
+        await watcher.check();
+        jest.advanceTimersByTime(ClippingsWatcher.DEBOUNCE_MS);
+    }
+
+    it('skips a file that matches the last sync by size and time', async () => {
+        synced = { path: PATH, size: 100, modified: 1000, hash: '' };
+
+        await check();
+
+        expect(onChange).not.toHaveBeenCalled();
+    });
+
+    it('syncs a file that changed since the last sync, once', async () => {
+        synced = { path: PATH, size: 80, modified: 900, hash: '' };
+
+        await check();
+        await check();
+
+        expect(onChange).toHaveBeenCalledTimes(1);
+    });
+
+    it('counts a file that reappears after the Kindle was disconnected as a change', async () => {
+        await check();
+        stats = null;
+        await check();
+        stats = { path: PATH, size: 100, modified: 1000 };
+        await check();
+
+        expect(onChange).toHaveBeenCalledTimes(2);
+    });
+});
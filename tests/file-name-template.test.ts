@@ -0,0 +1,45 @@
+import { FileNameTemplate } from '../file-name-template';
+import { FlashcardGenerator } from '../flashcard-generator';
+
+const clipping = FlashcardGenerator.SAMPLE_CLIPPING;
+const context = { index: 3, hash: 'a1b2c3d4' };
+
+describe('FileNameTemplate.render', () => {
+    it('fills in placeholders, dates, lengths, index and hash', () => {
+        expect(FileNameTemplate.render('{{title}} - {{location}}', clipping, context)).toBe('Sample Book - 100-102');
+        expect(FileNameTemplate.render('{{date:YYYY-MM-DD}} {{content:6}}', clipping, context)).toBe('2024-01-01 Sample');
+        expect(FileNameTemplate.render('{{index}} {{hash}}', clipping, context)).toBe('3 a1b2c3d4');
+    });
+
+    it('removes characters that are not allowed in file names', () => {
+        const unsafe = { ...clipping, title: 'What? A "Book": Part 1/2' };
+
+        expect(FileNameTemplate.render('{{title}}', unsafe, context)).toBe('What- A -Book-- Part 1-2');
+    });
+
+    it('trims what empty placeholders leave behind', () => {
+        const noNote = { ...clipping, note: '' };
+
+        expect(FileNameTemplate.render('{{title}} - {{note}}', noNote, context)).toBe('Sample Book');
+    });
+
+    it('falls back to the default format for an invalid template', () => {
+        expect(FileNameTemplate.render('{{unknown}}', clipping, context)).toBe('Sample Book - 100-102');
+    });
+});
+
+describe('FileNameTemplate.validate', () => {
+    it('accepts the default format', () => {
+        expect(FileNameTemplate.validate(FileNameTemplate.DEFAULT_FORMAT)).toBeNull();
+    });
+
+    it('rejects formats that would give no usable name', () => {
+        expect(FileNameTemplate.validate('  ')).toBe('The file name format is empty');
+        expect(FileNameTemplate.validate('{{page')).toBe('Unbalanced {{ or }} in the file name format');
+        expect(FileNameTemplate.validate('{{chapter}}')).toBe('Unknown placeholders: {{chapter}}');
+        expect(FileNameTemplate.validate('{{title:YYYY}}')).toMatch(/only \{\{date:\.\.\.\}\} takes a format/);
+        expect(FileNameTemplate.validate('{{title}}/{{location}}')).toMatch(/cannot contain/);
+        expect(FileNameTemplate.validate('...')).toBe('The file name format produces an empty file name');
+        expect(FileNameTemplate.validate('con')).toBe('"con" is a reserved file name');
+    });
+});
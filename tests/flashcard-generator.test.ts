@@ -0,0 +1,56 @@
+import { FlashcardGenerator } from '../flashcard-generator';
+import { Frontmatter } from '../frontmatter';
+
+const clipping = { ...FlashcardGenerator.SAMPLE_CLIPPING, note: '' };
+
+describe('FlashcardGenerator card files', () => {
+    it('writes the clipping metadata, card ID and tag into the frontmatter', () => {
+        const { data, body } = Frontmatter.split(FlashcardGenerator.generateCardFile(clipping, '{{content}}', 'card-1'));
+
+        expect(data).toEqual({
+            [FlashcardGenerator.CARD_ID_FIELD]: 'card-1',
+            title: 'Sample Book',
+            authors: ['Sample Author'],
+            location: '100-102',
+            page: '12',
+            date: '2024-01-01T12:00:00',
+            type: 'Highlight',
+            tags: [FlashcardGenerator.CARD_TAG]
+        });
+        expect(body).toBe('Sample highlighted passage');
+    });
+
+    it('merges frontmatter from the template, keeping its tags after the card tag', () => {
+        const template = '---\nsource: kindle\ntags:\n  - reading\n---\n{{content}}';
+        const { data } = Frontmatter.split(FlashcardGenerator.generateCardFile(clipping, template, 'card-1'));
+
+        expect(data.source).toBe('kindle');
+        expect(data.tags).toEqual([FlashcardGenerator.CARD_TAG, 'reading']);
+    });
+
+    it('leaves out metadata the clipping does not have', () => {
+        const { data } = Frontmatter.split(FlashcardGenerator.generateCardFile({ ...clipping, location: 'Unknown', page: undefined }, '{{content}}', 'card-1'));
+
+        expect(data).not.toHaveProperty('location');
+        expect(data).not.toHaveProperty('page');
+    });
+
+    it('reads back the metadata it wrote', () => {
+        const { data } = Frontmatter.split(FlashcardGenerator.generateCardFile(clipping, '{{content}}', 'card-1'));
+
+        expect(FlashcardGenerator.readCardMetadata(data)).toEqual({
+            title: 'Sample Book',
+            author: 'Sample Author',
+            authors: ['Sample Author'],
+            type: 'Highlight',
+            location: '100-102',
+            page: '12',
+            locationStart: 100,
+            locationEnd: 102,
+            date: '2024-01-01T12:00:00',
+            dateAdded: clipping.dateAdded,
+            cardId: 'card-1'
+        });
+        expect(FlashcardGenerator.readCardMetadata({ tags: ['flashcard'] })).toBeNull();
+    });
+});
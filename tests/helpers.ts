@@ -0,0 +1,49 @@
+import { KindleParser, ChunkedParseOptions } from '../kindle-parser';
+import { KindleCardsSettings, ClippingsParseResult } from '../types';
+
+/**
+ * Reads byte ranges of an in-memory My Clippings.txt, like KindleSource does for files
+ */
+export function createReader(text: string, bom = false) {
+    const body = new TextEncoder().encode(text);
+    const bytes = new Uint8Array(body.length + (bom ? 3 : 0));
+    if (bom) {
+        bytes.set([0xef, 0xbb, 0xbf]);
+    }
+    bytes.set(body, bom ? 3 : 0);
+
+    return {
+        bytes,
+        size: bytes.length,
+        read: async (start: number, end: number) => bytes.slice(start, end)
+    };
+}
+
+export function parseText(text: string, options: Partial<ChunkedParseOptions> = {}): Promise<ClippingsParseResult> {
+    const reader = createReader(text);
+    return KindleParser.parseChunked(reader.read, { start: 0, end: reader.size, ...options });
+}
+
+/**
+ * One My Clippings.txt entry, followed by its separator
+ */
+export function entry(title: string, metadata: string, content: string): string {
+    return `${title}\r\n- ${metadata}\r\n\r\n${content}\r\n==========\r\n`;
+}
+
+export function highlight(title: string, location: string, date: string, content: string): string {
+    return entry(title, `Your Highlight on Location ${location} | Added on ${date}`, content);
+}
+
+/**
+ * Settings with only what the sync code reads; the rest comes from the test
+ */
+export function createSettings(overrides: Partial<KindleCardsSettings> = {}): KindleCardsSettings {
+    return {
+        outputFolder: 'KindleCards',
+        syncedClippings: {},
+        rejectedClippings: {},
+        ignoredBooks: {},
+        ...overrides
+    } as KindleCardsSettings;
+}
@@ -0,0 +1,94 @@
+import { IgnoreList } from '../ignore-list';
+import { ClippingFilter } from '../clipping-filter';
+import { KindleClipping, SyncAction, SyncPlanItem } from '../types';
+import { createSettings, highlight, parseText } from './helpers';
+
+const TITLE = 'Deep Work (Cal Newport)';
+
+const file =
+    highlight(TITLE, '100-101', 'Monday, January 1, 2024 10:00:00 AM', 'Short') +
+    highlight(TITLE, '200-201', 'Tuesday, January 2, 2024 10:00:00 AM', 'A highlight the reader rejected in the preview');
+
+function planItem(key: string, action: SyncAction, clipping: KindleClipping): SyncPlanItem {
+    return { key, cardId: key, clipping, action, path: `${key}.md`, content: '', contentHash: '' };
+}
+
+describe('IgnoreList rejected clippings', () => {
+    it('still applies when other clippings are filtered out', async () => {
+        const settings = createSettings({ includeHighlightedText: true });
+        const { clippings } = await parseText(file);
+        IgnoreList.ignoreClippings(settings, [clippings[1]]);
+
+        const filtered = ClippingFilter.apply((await parseText(file)).clippings, { ...settings, minimumContentLength: 10 });
+
+        expect(filtered.clippings).toHaveLength(1);
+        expect(IgnoreList.isClippingIgnored(settings, filtered.clippings[0])).toBe(true);
+    });
+
+    it('still applies when the text is shortened by the content settings', async () => {
+        const settings = createSettings({ includeHighlightedText: true });
+        const { clippings } = await parseText(file);
+        IgnoreList.ignoreClippings(settings, [clippings[1]]);
+
+        const filtered = ClippingFilter.apply(clippings, { ...settings, maximumContentLength: 12 });
+
+        expect(filtered.clippings[1].content).not.toBe(clippings[1].content);
+        expect(IgnoreList.isClippingIgnored(settings, filtered.clippings[1])).toBe(true);
+        expect(IgnoreList.isClippingIgnored(settings, filtered.clippings[0])).toBe(false);
+    });
+});
+
+describe('IgnoreList.rejectUnticked', () => {
+    it('rejects unticked new clippings but only skips unticked updates', async () => {
+        const settings = createSettings();
+        const { clippings } = await parseText(file);
+        const items = [planItem('new', 'new', clippings[0]), planItem('update', 'updated', clippings[1])];
+
+        const rejected = IgnoreList.rejectUnticked(settings, items, new Set());
+
+        expect(rejected).toBe(1);
+        expect(IgnoreList.isClippingIgnored(settings, clippings[0])).toBe(true);
+        expect(IgnoreList.isClippingIgnored(settings, clippings[1])).toBe(false);
+    });
+
+    it('leaves ticked clippings alone', async () => {
+        const settings = createSettings();
+        const { clippings } = await parseText(file);
+
+        expect(IgnoreList.rejectUnticked(settings, [planItem('new', 'new', clippings[0])], new Set(['new']))).toBe(0);
+        expect(settings.rejectedClippings).toEqual({});
+    });
+});
+
+describe('IgnoreList books', () => {
+    const dictionary = 'Oxford Dictionary (Oxford University Press)';
+    const withDictionary = file + highlight(dictionary, '10-11', 'Wednesday, January 3, 2024 10:00:00 AM', 'lexicon');
+
+    it('drops clippings of ignored books while parsing, and counts them', async () => {
+        const settings = createSettings();
+        const { clippings } = await parseText(withDictionary);
+        IgnoreList.ignoreBooks(settings, [clippings[2]]);
+
+        const parsed = await parseText(withDictionary, { isIgnored: clipping => IgnoreList.isBookIgnored(settings, clipping) });
+
+        expect(parsed.clippings.map(clipping => clipping.title)).toEqual(['Deep Work', 'Deep Work']);
+        expect(parsed.ignored).toBe(1);
+    });
+
+    it('matches a book however its author is written', () => {
+        const settings = createSettings();
+        IgnoreList.ignoreBooks(settings, [{ title: 'Deep Work', author: 'Newport, Cal' }]);
+
+        expect(IgnoreList.isBookIgnored(settings, { title: 'Deep Work', author: 'Cal Newport' })).toBe(true);
+        expect(IgnoreList.isBookIgnored(settings, { title: 'Digital Minimalism', author: 'Cal Newport' })).toBe(false);
+    });
+
+    it('takes books off the list again', () => {
+        const settings = createSettings();
+        IgnoreList.ignoreBooks(settings, [{ title: 'Deep Work', author: 'Cal Newport' }]);
+
+        IgnoreList.removeBook(settings, Object.keys(settings.ignoredBooks)[0]);
+
+        expect(IgnoreList.isBookIgnored(settings, { title: 'Deep Work', author: 'Cal Newport' })).toBe(false);
+    });
+});
@@ -0,0 +1,181 @@
+import { KindleParser } from '../kindle-parser';
+import { createReader, entry, highlight, parseText } from './helpers';
+
+const TITLE = 'Deep Work (Cal Newport)';
+
+describe('KindleParser.parseTitleAndAuthor', () => {
+    it('takes the last parenthesised group as the author', () => {
+        expect(KindleParser.parseTitleAndAuthor('Meditations (Penguin Classics) (Marcus Aurelius)')).toEqual({
+            title: 'Meditations (Penguin Classics)',
+            author: 'Marcus Aurelius',
+            authors: ['Marcus Aurelius']
+        });
+    });
+
+    it('strips a byte order mark and turns "Last, First" around', () => {
+        expect(KindleParser.parseTitleAndAuthor('\uFEFFThinking, Fast and Slow (Kahneman, Daniel)')).toEqual({
+            title: 'Thinking, Fast and Slow',
+            author: 'Kahneman, Daniel',
+            authors: ['Daniel Kahneman']
+        });
+    });
+
+    it('splits several authors', () => {
+        expect(KindleParser.parseTitleAndAuthor('Good Omens (Pratchett, Terry;Gaiman, Neil)').authors).toEqual(['Terry Pratchett', 'Neil Gaiman']);
+        expect(KindleParser.normalizeAuthors('Steven D. Levitt & Stephen J. Dubner')).toEqual(['Steven D. Levitt', 'Stephen J. Dubner']);
+    });
+
+    it('falls back to an unknown author when the header has none', () => {
+        expect(KindleParser.parseTitleAndAuthor('No Author Here')).toEqual({ title: 'No Author Here', author: 'Unknown Author', authors: [] });
+    });
+});
+
+describe('KindleParser notes', () => {
+    const note = (location: string, content: string) =>
+        entry(TITLE, `Your Note on Location ${location} | Added on Monday, January 1, 2024 10:01:00 AM`, content);
+
+    it('attaches a note to the highlight whose range contains it', async () => {
+        const { clippings } = await parseText(
+            highlight(TITLE, '100-104', 'Monday, January 1, 2024 10:00:00 AM', 'Focus is a skill') +
+            note('104', 'Train it daily')
+        );
+
+        expect(clippings).toHaveLength(1);
+        expect(clippings[0].content).toBe('Focus is a skill');
+        expect(clippings[0].note).toBe('Train it daily');
+    });
+
+    it('gives the note to the latest of several matching highlights', async () => {
+        const { clippings } = await parseText(
+            highlight(TITLE, '100-104', 'Monday, January 1, 2024 10:00:00 AM', 'Focus is a skill') +
+            highlight(TITLE, '102-104', 'Monday, January 1, 2024 10:00:30 AM', 'a skill') +
+            note('104', 'Train it daily')
+        );
+
+        expect(clippings.map(clipping => clipping.note)).toEqual([undefined, 'Train it daily']);
+    });
+
+    it('keeps notes without a matching highlight as standalone clippings', async () => {
+        const { clippings } = await parseText(
+            highlight(TITLE, '100-104', 'Monday, January 1, 2024 10:00:00 AM', 'Focus is a skill') +
+            note('250', 'A thought of my own') +
+            entry('Another Book (Someone Else)', 'Your Note on Location 102 | Added on Monday, January 1, 2024 10:02:00 AM', 'Other book')
+        );
+
+        expect(clippings.map(clipping => clipping.type)).toEqual(['Highlight', 'Note', 'Note']);
+        expect(clippings[0].note).toBeUndefined();
+    });
+});
+
+describe('KindleParser.findDuplicates', () => {
+    it('keeps the most recent re-highlight of a passage', async () => {
+        const { clippings } = await parseText(
+            highlight(TITLE, '100-101', 'Monday, January 1, 2024 10:00:00 AM', 'Focus is a skill') +
+            highlight(TITLE, '100-102', 'Monday, January 1, 2024 10:05:00 AM', 'Focus is a skill that can be trained')
+        );
+
+        const groups = KindleParser.findDuplicates(clippings);
+
+        expect(groups).toHaveLength(1);
+        expect(groups[0].kept).toBe(clippings[1]);
+        expect(groups[0].duplicates).toEqual([clippings[0]]);
+    });
+
+    it('does not chain overlaps into one group', async () => {
+        const { clippings } = await parseText(
+            highlight(TITLE, '100-110', 'Monday, January 1, 2024 10:00:00 AM', 'the quick brown fox') +
+            highlight(TITLE, '105-120', 'Monday, January 1, 2024 10:01:00 AM', 'the quick brown fox jumps over the lazy dog') +
+            highlight(TITLE, '115-130', 'Monday, January 1, 2024 10:02:00 AM', 'jumps over the lazy dog')
+        );
+
+        const groups = KindleParser.findDuplicates(clippings);
+
+        expect(groups).toHaveLength(1);
+        const grouped = [groups[0].kept, ...groups[0].duplicates];
+        expect(grouped).toEqual(expect.arrayContaining([clippings[0], clippings[1]]));
+        expect(grouped).not.toContain(clippings[2]);
+    });
+
+    it('only compares clippings of the same book and type', async () => {
+        const { clippings } = await parseText(
+            highlight(TITLE, '100-101', 'Monday, January 1, 2024 10:00:00 AM', 'Focus is a skill') +
+            highlight('Digital Minimalism (Cal Newport)', '100-101', 'Monday, January 1, 2024 10:05:00 AM', 'Focus is a skill')
+        );
+
+        expect(KindleParser.findDuplicates(clippings)).toEqual([]);
+    });
+
+    it('leaves clippings without a location alone', async () => {
+        const { clippings } = await parseText(
+            highlight(TITLE, '100-101', 'Monday, January 1, 2024 10:00:00 AM', 'Focus is a skill') +
+            highlight(TITLE, 'Unknown', 'Monday, January 1, 2024 10:05:00 AM', 'Focus is a skill')
+        );
+
+        expect(KindleParser.findDuplicates(clippings)).toEqual([]);
+    });
+});
+
+describe('KindleParser.mayDuplicate', () => {
+    it('flags an added clipping that overlaps an existing one of the same book', async () => {
+        const { clippings } = await parseText(
+            highlight(TITLE, '100-102', 'Monday, January 1, 2024 10:00:00 AM', 'Focus is a skill') +
+            highlight(TITLE, '102-104', 'Monday, January 1, 2024 10:05:00 AM', 'Focus is a skill that can be trained')
+        );
+
+        expect(KindleParser.mayDuplicate([clippings[1]], [clippings[0]])).toBe(true);
+    });
+
+    it('ignores other books and locations that do not overlap', async () => {
+        const { clippings } = await parseText(
+            highlight(TITLE, '100-101', 'Monday, January 1, 2024 10:00:00 AM', 'Focus is a skill') +
+            highlight('Digital Minimalism (Cal Newport)', '100-101', 'Monday, January 1, 2024 10:05:00 AM', 'Focus is a skill') +
+            highlight(TITLE, '102-103', 'Monday, January 1, 2024 10:10:00 AM', 'Focus is a skill')
+        );
+
+        expect(KindleParser.mayDuplicate(clippings.slice(1), [clippings[0]])).toBe(false);
+    });
+});
+
+describe('KindleParser entry positions', () => {
+    const text =
+        highlight('Überlegungen (Jörg Müller)', '10-11', 'Monday, January 1, 2024 10:00:00 AM', 'Ein Satz mit Umlauten: äöü') +
+        '- Your Highlight on Location 20-21 | Added on Monday, January 1, 2024 10:01:00 AM\r\n\r\nNo title line\r\n==========\r\n' +
+        highlight(TITLE, '30-31', 'Monday, January 1, 2024 10:02:00 AM', '');
+
+    async function parse(chunkSize?: number) {
+        const reader = createReader(text, true);
+        return { reader, parsed: await KindleParser.parseChunked(reader.read, { start: 0, end: reader.size, chunkSize }) };
+    }
+
+    it('reports the line and byte offset of each problem entry, counting the BOM', async () => {
+        const { reader, parsed } = await parse();
+        const decode = (offset: number) => new TextDecoder().decode(reader.bytes.slice(offset, offset + 14));
+
+        expect(parsed.diagnostics.map(diagnostic => [diagnostic.reason, diagnostic.line])).toEqual([
+            ['missing-header', 6],
+            ['empty-content', 10]
+        ]);
+        expect(decode(parsed.diagnostics[0].offset)).toBe('- Your Highlig');
+        expect(decode(parsed.diagnostics[1].offset)).toBe(TITLE.substring(0, 14));
+    });
+
+    it('ends at the end of the file', async () => {
+        const { reader, parsed } = await parse();
+
+        expect(parsed.endOffset).toBe(reader.size);
+        expect(parsed.endLine).toBe(text.split('\n').length);
+        expect(parsed.entries).toBe(3);
+        expect(parsed.separators).toBe(3);
+    });
+
+    it('gives the same result whatever the chunk size', async () => {
+        const whole = (await parse()).parsed;
+
+        for (const chunkSize of [1, 7, 64]) {
+            const { parsed } = await parse(chunkSize);
+            expect(parsed.diagnostics).toEqual(whole.diagnostics);
+            expect(parsed.clippings).toEqual(whole.clippings);
+            expect([parsed.endOffset, parsed.endLine]).toEqual([whole.endOffset, whole.endLine]);
+        }
+    });
+});
@@ -0,0 +1,121 @@
+import { KindleSource } from '../kindle-source';
+import { KindleParser } from '../kindle-parser';
+import { ContentHash } from '../content-hash';
+import { ClippingsFileState } from '../types';
+import { createReader, entry, highlight } from './helpers';
+
+const TITLE = 'Deep Work (Cal Newport)';
+const PATH = '/Volumes/Kindle/documents/My Clippings.txt';
+
+const earlier =
+    highlight(TITLE, '100-101', 'Monday, January 1, 2024 10:00:00 AM', 'Focus is a skill') +
+    entry(TITLE, 'Your Highlight on Location 150 | Added on Monday, January 1, 2024 10:01:00 AM', '');
+const appended =
+    highlight(TITLE, '200-201', 'Tuesday, January 2, 2024 10:00:00 AM', 'Depth over breadth') +
+    highlight(TITLE, '300-301', 'Wednesday, January 3, 2024 10:00:00 AM', 'Schedule every minute');
+
+function open(text: string) {
+    return { ...createReader(text, true), path: PATH, modified: 0 };
+}
+
+/**
+ * Parse a whole file the way a sync does, returning what the sync would remember about it
+ */
+async function syncFile(text: string): Promise<ClippingsFileState> {
+    const reader = open(text);
+    const hash = ContentHash.createStream();
+    const parsed = await KindleParser.parseChunked(async (start, end) => {
+        const bytes = await reader.read(start, end);
+        hash.update(bytes);
+        return bytes;
+    }, { start: 0, end: reader.size, chunkSize: 16 });
+
+    return { path: PATH, size: reader.size, modified: 0, hash: hash.digest(), parsedOffset: parsed.endOffset, parsedLines: parsed.endLine };
+}
+
+describe('KindleSource.findResumePosition', () => {
+    it('resumes after the parsed entries when the file was only appended to', async () => {
+        const state = await syncFile(earlier);
+
+        const position = await KindleSource.findResumePosition(open(earlier + appended), state);
+
+        expect(position).not.toBeNull();
+        expect(position!.offset).toBe(state.parsedOffset);
+        expect(position!.line).toBe(state.parsedLines);
+    });
+
+    it('parses the appended entries exactly as a full parse does', async () => {
+        const state = await syncFile(earlier);
+        const reader = open(earlier + appended);
+        const position = (await KindleSource.findResumePosition(reader, state))!;
+
+        const resumed = await KindleParser.parseChunked(async (start, end) => {
+            const bytes = await reader.read(start, end);
+            position.hash.update(bytes);
+            return bytes;
+        }, { start: position.offset, end: reader.size, line: position.line, chunkSize: 16 });
+        const full = await KindleParser.parseChunked(reader.read, { start: 0, end: reader.size });
+
+        expect(resumed.clippings).toEqual(full.clippings.slice(1));
+        expect(resumed.diagnostics).toEqual([]);
+        expect([resumed.endOffset, resumed.endLine]).toEqual([full.endOffset, full.endLine]);
+        // The hash carried through the resumed parse matches a sync of the whole file
+        expect(position.hash.digest()).toBe((await syncFile(earlier + appended)).hash);
+    });
+
+    it('needs the whole file when an appended note belongs to an earlier highlight', async () => {
+        const note = entry(TITLE, 'Your Note on Location 101 | Added on Tuesday, January 2, 2024 09:00:00 AM', 'Try this tomorrow');
+        const state = await syncFile(earlier);
+        const reader = open(earlier + note + appended);
+        const position = (await KindleSource.findResumePosition(reader, state))!;
+
+        const resumed = await KindleParser.parseChunked(reader.read, { start: position.offset, end: reader.size, line: position.line });
+        const earlierCards = (await KindleParser.parseChunked(reader.read, { start: 0, end: state.parsedOffset! })).clippings;
+        const full = await KindleParser.parseChunked(reader.read, { start: 0, end: reader.size });
+
+        // Parsed alone, the note has no highlight to go with, but one of the earlier cards can take it
+        expect(resumed.clippings[0].type).toBe('Note');
+        expect(KindleParser.mayAnnotate(resumed.clippings, earlierCards)).toBe(true);
+        expect(KindleParser.mayAnnotate(resumed.clippings.slice(1), earlierCards)).toBe(false);
+        expect(full.clippings[0].note).toBe('Try this tomorrow');
+        expect(full.clippings.some(clipping => clipping.type === 'Note')).toBe(false);
+    });
+
+    it('parses everything again when an earlier entry was edited', async () => {
+        const state = await syncFile(earlier);
+        const edited = earlier.replace('Focus is a skill', 'Focus is a craft');
+
+        expect(await KindleSource.findResumePosition(open(edited + appended), state)).toBeNull();
+    });
+
+    it('parses everything again when an earlier entry was deleted', async () => {
+        const state = await syncFile(earlier + appended);
+        const shortened = earlier.substring(earlier.indexOf('==========') + 12) + appended + appended;
+
+        expect(open(shortened).size).toBeGreaterThan(state.parsedOffset!);
+        expect(await KindleSource.findResumePosition(open(shortened), state)).toBeNull();
+    });
+
+    it('parses everything again for a different or shorter file', async () => {
+        const state = await syncFile(earlier + appended);
+
+        expect(await KindleSource.findResumePosition(open(earlier), state)).toBeNull();
+        expect(await KindleSource.findResumePosition({ ...open(earlier + appended), path: '/other/My Clippings.txt' }, state)).toBeNull();
+        expect(await KindleSource.findResumePosition(open(earlier + appended), null)).toBeNull();
+    });
+});
+
+describe('ContentHash streams', () => {
+    it('give the same digest however the bytes are split', () => {
+        const bytes = new TextEncoder().encode(earlier + appended);
+        const whole = ContentHash.createStream();
+        whole.update(bytes);
+
+        const pieces = ContentHash.createStream();
+        for (let i = 0; i < bytes.length; i += 5) {
+            pieces.update(bytes.slice(i, i + 5));
+        }
+
+        expect(pieces.digest()).toBe(whole.digest());
+    });
+});
@@ -0,0 +1,32 @@
+import { App, TFile } from 'obsidian';
+import { LibraryIndex } from '../library-index';
+import { createSettings } from './helpers';
+
+function file(path: string): TFile {
+    const result = new TFile();
+    result.path = path;
+    result.name = path.substring(path.lastIndexOf('/') + 1);
+    return result;
+}
+
+describe('LibraryIndex.isIndexNote', () => {
+    // Nothing is in the metadata cache yet, as right after the notes are written
+    const app = { metadataCache: { getFileCache: (): null => null } } as unknown as App;
+    const settings = createSettings({ outputFolder: 'KindleCards' });
+
+    it('recognises index notes by path before they are cached', () => {
+        expect(LibraryIndex.isIndexNote(app, file('KindleCards/Library.md'), settings)).toBe(true);
+        expect(LibraryIndex.isIndexNote(app, file('KindleCards/Cal Newport/Deep Work - Index.md'), settings)).toBe(true);
+    });
+
+    it('leaves cards and notes outside the output folder alone', () => {
+        expect(LibraryIndex.isIndexNote(app, file('KindleCards/Cal Newport/Deep Work - 100-101.md'), settings)).toBe(false);
+        expect(LibraryIndex.isIndexNote(app, file('Notes/Reading - Index.md'), settings)).toBe(false);
+    });
+
+    it('recognises index notes by their frontmatter anywhere', () => {
+        const cached = { metadataCache: { getFileCache: () => ({ frontmatter: { [LibraryIndex.INDEX_FIELD]: 'book' } }) } } as unknown as App;
+
+        expect(LibraryIndex.isIndexNote(cached, file('Elsewhere/Deep Work.md'), settings)).toBe(true);
+    });
+});
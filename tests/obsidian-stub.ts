@@ -0,0 +1,90 @@
+import * as momentLib from 'moment';
+
+/**
+ * Runtime stand-ins for the parts of the Obsidian API that the tested modules import.
+ * The real API only exists inside the app; the obsidian package ships type declarations.
+ */
+export const moment = momentLib;
+
+export const Platform = { isDesktopApp: false, isMobile: false };
+
+export class TAbstractFile {
+    path = '';
+    name = '';
+}
+
+export class TFile extends TAbstractFile {
+    basename = '';
+    extension = 'md';
+}
+
+export class TFolder extends TAbstractFile {
+    children: TAbstractFile[] = [];
+}
+
+export function normalizePath(path: string): string {
+    const normalized = path.replace(/[\\/]+/g, '/').replace(/^\/|\/$/g, '');
+    return normalized || '/';
+}
+
+export function getAllTags(): string[] | null {
+    return null;
+}
+
+/**
+ * Just enough YAML for card frontmatter: scalars and lists of scalars, one level deep
+ */
+export function stringifyYaml(data: Record<string, unknown>): string {
+    const scalar = (value: unknown) => typeof value === 'string' ? JSON.stringify(value) : String(value);
+    return Object.entries(data).map(([key, value]) => Array.isArray(value)
+        ? [`${key}:`, ...value.map(item => `  - ${scalar(item)}`)].join('\n')
+        : `${key}: ${scalar(value)}`
+    ).join('\n') + '\n';
+}
+
+export function parseYaml(yaml: string): Record<string, unknown> {
+    const scalar = (text: string): unknown => {
+        if (text === '' || text === 'null') return null;
+        if (text === 'true' || text === 'false') return text === 'true';
+        if (/^-?\d+(\.\d+)?$/.test(text)) return Number(text);
+        return text.startsWith('"') ? JSON.parse(text) : text.replace(/^'(.*)'$/, '$1');
+    };
+
+    const data: Record<string, unknown> = {};
+    let lastKey: string | null = null;
+    for (const line of yaml.split(/\r?\n/)) {
+        const item = line.match(/^\s+-\s*(.*)$/);
+        if (item && lastKey !== null) {
+            const list = Array.isArray(data[lastKey]) ? data[lastKey] as unknown[] : [];
+            list.push(scalar(item[1].trim()));
+            data[lastKey] = list;
+            continue;
+        }
+        const field = line.match(/^([^:\s][^:]*):\s*(.*)$/);
+        if (!field) {
+            if (line.trim()) throw new Error(`Unsupported YAML: ${line}`);
+            continue;
+        }
+        lastKey = field[1];
+        data[lastKey] = scalar(field[2].trim());
+    }
+    return data;
+}
+
+export function debounce<T extends unknown[]>(callback: (...args: T) => unknown, timeout = 0) {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const debounced = (...args: T) => {
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(() => {
+            timer = null;
+            callback(...args);
+        }, timeout);
+        return debounced;
+    };
+    debounced.cancel = () => {
+        if (timer) clearTimeout(timer);
+        timer = null;
+        return debounced;
+    };
+    return debounced;
+}
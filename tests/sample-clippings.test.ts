@@ -0,0 +1,83 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { moment } from 'obsidian';
+import { KindleClipping } from '../types';
+import { parseText } from './helpers';
+
+/**
+ * The sample My Clippings.txt files in the repository root, one per Kindle language. Each holds a
+ * highlight, a note on it, and a highlight with a page number.
+ */
+function readSample(language?: string): string {
+    const name = language ? `sample-My_Clippings-${language}.txt` : 'sample-My_Clippings.txt';
+    return fs.readFileSync(path.join(__dirname, '..', name), 'utf8');
+}
+
+function describeClipping(clipping: KindleClipping) {
+    return {
+        title: clipping.title,
+        author: clipping.author,
+        type: clipping.type,
+        location: clipping.location,
+        page: clipping.page,
+        added: clipping.dateAdded ? moment(clipping.dateAdded).format('YYYY-MM-DD HH:mm:ss') : null
+    };
+}
+
+describe('Parsing the sample clippings files', () => {
+    const samples: [string, Partial<KindleClipping>, string, string, string][] = [
+        ['de', { title: 'Der Steppenwolf', author: 'Hesse, Hermann' }, '312-314', '2024-05-06 21:14:03', '88'],
+        ['es', { title: 'Cien años de soledad', author: 'Gabriel García Márquez' }, '12-14', '2024-02-14 19:40:12', '301'],
+        ['fr', { title: 'L\'Étranger', author: 'Albert Camus' }, '45-46', '2024-06-01 14:22:10', '112'],
+        ['it', { title: 'Il nome della rosa', author: 'Umberto Eco' }, '210-212', '2024-04-04 22:10:05', '503'],
+        ['ja', { title: '吾輩は猫である', author: '夏目漱石' }, '5-6', '2024-03-10 21:03:44', '52'],
+        ['pt', { title: 'Dom Casmurro', author: 'Machado de Assis' }, '88-90', '2024-07-09 20:45:33', '140'],
+        ['zh', { title: '活着', author: '余华' }, '101-103', '2024-08-20 21:30:12', '45']
+    ];
+
+    it.each(samples)('reads the %s file', async (language, book, location, added, page) => {
+        const parsed = await parseText(readSample(language));
+
+        expect(parsed.diagnostics).toEqual([]);
+        expect(parsed.clippings).toHaveLength(2);
+        expect(describeClipping(parsed.clippings[0])).toEqual({
+            ...book,
+            type: 'Highlight',
+            location,
+            page: undefined,
+            added
+        });
+        // The note is attached to the highlight it was written on
+        expect(parsed.clippings[0].note).toBeTruthy();
+        expect(parsed.clippings[1].page).toBe(page);
+    });
+
+    it('reads pages with their location, and afternoon times', async () => {
+        const [, ja] = (await parseText(readSample('ja'))).clippings;
+        const [, es] = (await parseText(readSample('es'))).clippings;
+
+        expect(describeClipping(ja)).toEqual({
+            title: '吾輩は猫である',
+            author: '夏目漱石',
+            type: 'Highlight',
+            location: '780-782',
+            page: '52',
+            added: '2024-03-12 20:12:09'
+        });
+        expect(describeClipping(es).added).toBe('2024-02-16 07:15:45');
+    });
+
+    it('reads the English file', async () => {
+        const parsed = await parseText(readSample());
+
+        expect(parsed.diagnostics).toEqual([]);
+        expect(describeClipping(parsed.clippings[0])).toEqual({
+            title: 'Atomic Habits',
+            author: 'James Clear',
+            type: 'Highlight',
+            location: '123-125',
+            page: undefined,
+            added: '2025-01-15 10:30:00'
+        });
+    });
+});
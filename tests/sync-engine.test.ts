@@ -0,0 +1,121 @@
+import { App } from 'obsidian';
+import { SyncEngine } from '../sync-engine';
+import { KindleParser } from '../kindle-parser';
+import { ClippingFilter } from '../clipping-filter';
+import { createSettings, entry, highlight, parseText } from './helpers';
+
+const TITLE = 'Deep Work (Cal Newport)';
+
+describe('SyncEngine identities', () => {
+    const app = {} as App;
+
+    it('numbers clippings that share book, type, location and date by appearance', () => {
+        const [first, second] = SyncEngine.getClippingKeys([
+            { title: 'Book', author: 'Author', type: 'Highlight', location: '10', date: 'Monday', content: 'a' },
+            { title: 'Book', author: 'Author', type: 'Highlight', location: '10', date: 'Monday', content: 'b' }
+        ]);
+
+        expect(second).toBe(`${first}#2`);
+    });
+
+    it('tells page-only clippings apart by page', async () => {
+        const { clippings } = await parseText(
+            entry(TITLE, 'Your Highlight on page 12 | Added on Monday, January 1, 2024 10:00:00 AM', 'On page twelve') +
+            entry(TITLE, 'Your Highlight on page 14 | Added on Monday, January 1, 2024 10:00:00 AM', 'On page fourteen')
+        );
+        const [first, second] = SyncEngine.getClippingKeys(clippings);
+
+        expect(clippings.map(clipping => clipping.location)).toEqual(['Unknown', 'Unknown']);
+        expect(first).not.toBe(second);
+        expect(second).not.toMatch(/#\d+$/);
+    });
+
+    it('continues numbering after existing identities', () => {
+        const clipping = { title: 'Book', author: 'Author', type: 'Highlight', location: '10', date: 'Monday', content: 'a' };
+        const [key] = SyncEngine.getClippingKeys([clipping]);
+
+        expect(SyncEngine.getClippingKeys([clipping], [key, `${key}#2`])).toEqual([`${key}#3`]);
+    });
+
+    it('keeps identities when filters drop earlier clippings', async () => {
+        const parsed = await parseText(
+            highlight(TITLE, '100-101', 'Monday, January 1, 2024 10:00:00 AM', 'Too short') +
+            highlight(TITLE, '100-101', 'Monday, January 1, 2024 10:00:00 AM', 'A second highlight at the same place and time') +
+            highlight(TITLE, '200-201', 'Tuesday, January 2, 2024 10:00:00 AM', 'Another highlight further on')
+        );
+        const engine = new SyncEngine(app, createSettings());
+        const identified = engine.identify(parsed.clippings);
+
+        const { clippings } = ClippingFilter.apply(identified, createSettings({
+            includeHighlightedText: true,
+            minimumContentLength: 10
+        }));
+
+        expect(clippings.map(clipping => clipping.syncKey)).toEqual([identified[1].syncKey, identified[2].syncKey]);
+        expect(identified[1].syncKey).toMatch(/#2$/);
+    });
+
+    it('keeps identities when duplicates are merged', async () => {
+        const parsed = await parseText(
+            highlight(TITLE, '100-101', 'Monday, January 1, 2024 10:00:00 AM', 'Focus is a skill') +
+            highlight(TITLE, '100-102', 'Monday, January 1, 2024 10:05:00 AM', 'Focus is a skill that can be trained') +
+            highlight(TITLE, '300-301', 'Tuesday, January 2, 2024 10:00:00 AM', 'Shallow work is easy to replicate')
+        );
+        const engine = new SyncEngine(app, createSettings());
+        const identified = engine.identify(parsed.clippings);
+
+        const merged = KindleParser.removeDuplicates(identified, KindleParser.findDuplicates(identified));
+
+        expect(merged.map(clipping => clipping.syncKey)).toEqual([identified[1].syncKey, identified[2].syncKey]);
+    });
+
+    it('gives appended clippings the identities a full parse gives them', async () => {
+        const earlier = highlight(TITLE, '100-101', 'Monday, January 1, 2024 10:00:00 AM', 'Focus is a skill');
+        const appended = highlight(TITLE, '100-101', 'Monday, January 1, 2024 10:00:00 AM', 'Focus is a skill, again') +
+            highlight(TITLE, '400-401', 'Wednesday, January 3, 2024 10:00:00 AM', 'Depth over breadth');
+
+        const full = new SyncEngine(app, createSettings()).identify((await parseText(earlier + appended)).clippings);
+        const synced = { [full[0].syncKey as string]: { path: 'a.md', cardId: 'a', contentHash: '', lastSynced: '', title: TITLE, author: '' } };
+        const earlierBytes = new TextEncoder().encode(earlier).length;
+        const tail = await parseText(earlier + appended, { start: earlierBytes });
+        const resumed = new SyncEngine(app, createSettings({ syncedClippings: synced })).identify(tail.clippings, true);
+
+        expect(resumed.map(clipping => clipping.syncKey)).toEqual(full.slice(1).map(clipping => clipping.syncKey));
+    });
+
+    it('does not reuse the identity of a card that has no sync record', async () => {
+        const same = (content: string) => highlight(TITLE, '100-101', 'Monday, January 1, 2024 10:00:00 AM', content);
+        const earlier = same('First') + same('Second, adopted from an untracked file');
+        const appended = same('Third');
+
+        const full = new SyncEngine(app, createSettings()).identify((await parseText(earlier + appended)).clippings);
+        const synced = { [full[0].syncKey as string]: { path: 'a.md', cardId: 'a', contentHash: '', lastSynced: '', title: TITLE, author: '' } };
+        const adopted = { ...full[1], cardId: SyncEngine.createCardId(full[1].syncKey as string) };
+        const tail = await parseText(earlier + appended, { start: new TextEncoder().encode(earlier).length });
+        const resumed = new SyncEngine(app, createSettings({ syncedClippings: synced })).identify(tail.clippings, true, [adopted]);
+
+        expect(resumed.map(clipping => clipping.syncKey)).toEqual([full[2].syncKey]);
+    });
+});
+
+describe('SyncEngine card paths', () => {
+    const app = { vault: { getAbstractFileByPath: (): null => null } } as unknown as App;
+    const settings = () => createSettings({ cardFileNamingFormat: '{{title}} - {{location}}', cardTemplate: '{{content}}' });
+
+    it('gives a clashing name the clipping hash, the same way every time', async () => {
+        const { clippings } = await parseText(
+            highlight(TITLE, '100-101', 'Monday, January 1, 2024 10:00:00 AM', 'Focus is a skill') +
+            highlight(TITLE, '100-101', 'Tuesday, January 2, 2024 10:00:00 AM', 'Depth over breadth')
+        );
+        const keys = SyncEngine.getClippingKeys(clippings);
+
+        const first = await new SyncEngine(app, settings()).plan(clippings);
+        const again = await new SyncEngine(app, settings()).plan(clippings);
+
+        expect(first.items.map(item => item.path)).toEqual([
+            'KindleCards/Deep Work - 100-101.md',
+            `KindleCards/Deep Work - 100-101 (${SyncEngine.createCardId(keys[1]).substring(0, 8)}).md`
+        ]);
+        expect(again.items.map(item => item.path)).toEqual(first.items.map(item => item.path));
+    });
+});
@@ -0,0 +1,62 @@
+import { TemplateEngine } from '../template-engine';
+import { FlashcardGenerator } from '../flashcard-generator';
+
+const clipping = FlashcardGenerator.SAMPLE_CLIPPING;
+
+function render(template: string, context: Parameters<typeof TemplateEngine.render>[1]): string {
+    const { nodes, error } = TemplateEngine.parse(template);
+    expect(error).toBeNull();
+    return TemplateEngine.render(nodes, context);
+}
+
+describe('TemplateEngine', () => {
+    it('renders sections and filters', () => {
+        const context = { title: 'Deep Work', author: 'Cal Newport', note: '', page: '12' };
+
+        expect(render('{{author|upper}}{{#if note}} – {{note}}{{else}} (no note){{/if}}', context)).toBe('CAL NEWPORT (no note)');
+        expect(render('{{#unless page}}no page{{/unless}}{{#if page}}p. {{page}}{{/if}}', context)).toBe('p. 12');
+        expect(render('{{title|truncate:4}} {{note|default:"none"}}', context)).toBe('Deep… none');
+    });
+
+    it('formats dates with the format filter and leaves the Kindle text otherwise', () => {
+        const date = { text: 'Monday, January 1, 2024 12:00:00 PM', date: new Date(2024, 0, 1, 12, 0, 0) };
+
+        expect(render('{{date|format:"YYYY-MM-DD"}}', { date })).toBe('2024-01-01');
+        expect(render('{{date}}', { date })).toBe(date.text);
+    });
+
+    it('escapes Markdown-sensitive characters only when asked', () => {
+        const context = { content: 'Use *emphasis* and [links] #tag' };
+
+        expect(render('{{content|escape}}', context)).toBe('Use \\*emphasis\\* and \\[links\\] \\#tag');
+        expect(render('{{content}}', context)).toBe(context.content);
+        expect(render('\\{{content}}', context)).toBe('{{content}}');
+    });
+
+    it('reports syntax errors with their line', () => {
+        expect(TemplateEngine.parse('{{content}}\n{{#if note}}').error).toBe('Line 2: {{#if note}} is never closed');
+        expect(TemplateEngine.parse('{{/if}}').error).toBe('Line 1: {{/if}} without a matching {{#if}}');
+        expect(TemplateEngine.parse('{{#if note}}{{/unless}}').error).toBe('Line 1: {{/unless}} closes {{#if}}');
+        expect(TemplateEngine.parse('{{content').error).toBe('Line 1: "{{" is never closed');
+        expect(TemplateEngine.parse('{{content|truncate:"5}}').error).toBe('Line 1: Unterminated quote in filter "truncate:"5"');
+    });
+
+    it('reports unknown placeholders and filters', () => {
+        expect(FlashcardGenerator.validateTemplate('{{chapter}} {{content|shout}}')).toBe('Unknown placeholder "chapter"; Unknown filter "shout"');
+        expect(FlashcardGenerator.validateTemplate(FlashcardGenerator.DEFAULT_TEMPLATE)).toBeNull();
+    });
+});
+
+describe('FlashcardGenerator.generateFlashcard', () => {
+    it('leaves out the page label when there is no page', () => {
+        const template = '{{highlight}}{{#if page}} (p. {{page}}){{/if}}';
+
+        expect(FlashcardGenerator.generateFlashcard(clipping, template)).toBe('Sample highlighted passage (p. 12)');
+        expect(FlashcardGenerator.generateFlashcard({ ...clipping, page: '' }, template)).toBe('Sample highlighted passage');
+    });
+
+    it('falls back to the default template when the template is invalid', () => {
+        expect(FlashcardGenerator.generateFlashcard(clipping, '{{#if note}}'))
+            .toBe(FlashcardGenerator.generateFlashcard(clipping, FlashcardGenerator.DEFAULT_TEMPLATE));
+    });
+});
@@ -4,11 +4,21 @@
 
 export interface KindleClipping {
 	title: string;
-	author: string;
+	author: string; // Author field as written in the clippings header
+	authors?: string[]; // Normalised "First Last" names, one per author
 	type: string;
-	location: string;
+	location: string; // Raw location text, e.g. "180-182" (or "Unknown")
+	page?: string; // Page number or range when the book has real page numbers, e.g. "12" or "xii"
+	locationStart?: number; // First Kindle location of the clipping
+	locationEnd?: number; // Last Kindle location (equal to locationStart for single locations)
 	date: string;
+	dateAdded?: Date; // Parsed from the localised date text
+	language?: string; // Kindle UI language the entry was written in, e.g. 'en', 'de', or 'unknown'
 	content: string;
+	cardId?: string; // Persistent card ID read from the card file's frontmatter
+	filePath?: string; // Vault path of the card file this was read from
+	note?: string; // Kindle note attached to this highlight (used as the question side)
+	syncKey?: string; // Sync identity, given to everything parsed before duplicates are merged or filters applied
 }
 
 export interface CardReviewData {
@@ -28,6 +38,12 @@ export interface CardReviewData {
     buried: boolean;         // Is card buried until tomorrow?
 }
 
+export interface TrashedReview {
+    data: CardReviewData;
+    trashedAt: string;   // ISO timestamp of when the card's file disappeared
+    path: string | null; // Last known vault path of the card file
+}
+
 export interface ReviewResult {
     quality: 'again' | 'hard' | 'good' | 'easy'; // Anki's 4-button system
     timeSpent?: number; // Time spent on the card in seconds
@@ -38,6 +54,13 @@ export interface KindleCardsSettings {
 	outputFolder: string;
 	cardTemplate: string;
 	spacedRepetitionData: Record<string, CardReviewData>;
+	reviewTrash: Record<string, TrashedReview>; // Review history of deleted cards, restorable until purged
+	syncedClippings: Record<string, SyncedClippingRecord>; // Sync state keyed by clipping identity
+	rejectedClippings: Record<string, RejectedClipping>; // Clippings unticked in the sync preview, never offered again; keyed by IgnoreList.getClippingKey
+	ignoredBooks: Record<string, IgnoredBook>; // Books that never become cards, keyed by book key
+	bookmarks: Record<string, BookmarkRecord[]>; // Kindle bookmarks by book key, listed on the book index notes
+	lastSyncReport: SyncReport | null; // Outcome and parse diagnostics of the most recent sync
+	cardIdVersion: number; // Card ID scheme the review data is keyed by (1 = legacy hash, 2 = persistent IDs)
 	enableSpacedRepetition: boolean;
 	newCardsPerDay: number;
 	
@@ -73,6 +96,8 @@ export interface KindleCardsSettings {
 	minimumContentLength: number; // Minimum characters for valid content
 	maximumContentLength: number; // Maximum characters for content (truncate)
 	excludePatterns: string[]; // Regex patterns to exclude from content
+	deduplicateClippings: boolean; // Keep only the latest of overlapping re-highlights
+	reviewDuplicateMerges: boolean; // Confirm duplicate merges before sync writes files
 	includeOnlyPatterns: string[]; // Only include content matching these patterns
 	
 	// File Organization Settings
@@ -82,12 +107,16 @@ export interface KindleCardsSettings {
 	includeMetadataFiles: boolean; // Generate metadata JSON files
 	cardFileNamingFormat: string; // Format for card filenames
 	enableAutoSync: boolean; // Auto-sync when Kindle files change
+	previewBeforeSync: boolean; // Show planned changes and let the user pick before manual syncs write
+	lastSyncedFile: ClippingsFileState | null; // My Clippings.txt as of the last successful sync
 	backupBeforeSync: boolean; // Create backup before syncing
+	backupRetention: number; // Number of backup snapshots to keep
 	
 	// UI/UX Preferences
 	preferredTheme: 'light' | 'dark' | 'auto'; // Theme preference
 	compactMode: boolean; // Use compact UI layout
 	showBookCovers: boolean; // Show book covers when available
+	coversFolder: string; // Folder of cover images named after their books ('' = "<output folder>/Covers")
 	enableBulkOperations: boolean; // Enable bulk edit/delete operations
 	confirmDeletions: boolean; // Confirm before deleting cards
 	showAdvancedStats: boolean; // Show detailed statistics
@@ -96,6 +125,7 @@ export interface KindleCardsSettings {
 	maxCardsInMemory: number; // Maximum cards to keep in memory
 	enableBackgroundSync: boolean; // Sync in background
 	cacheBookData: boolean; // Cache book metadata
+	bookData: Record<string, BookMetadata>; // Cached per-book summaries keyed by book key, written at sync
 	enableDebugLogging: boolean; // Enable debug logging
 	
 	// Export/Import Settings
@@ -105,11 +135,177 @@ export interface KindleCardsSettings {
 	autoExportInterval: number; // Hours between auto-exports
 }
 
+export interface SyncedClippingRecord {
+    path: string;        // Vault path of the card file written for this clipping
+    cardId: string;      // Persistent card ID written into the card's frontmatter
+    contentHash: string; // Hash of the rendered card content at the last sync
+    lastSynced: string;  // ISO timestamp of the last write
+    title?: string;      // Book title, used to place the card in book folders
+    author?: string;     // Author field as written in the clippings header
+}
+
+export type SyncAction = 'new' | 'updated' | 'unchanged';
+
+export interface SyncPlanItem {
+    key: string;              // Stable clipping identity
+    cardId: string;
+    clipping: KindleClipping;
+    action: SyncAction;
+    path: string;             // Target vault path of the card file
+    content: string;          // Rendered card content
+    contentHash: string;
+}
+
+export type SyncPreviewAction = SyncAction | 'duplicate' | 'filtered';
+
+export interface SyncPreviewEntry {
+    clipping: KindleClipping;
+    action: SyncPreviewAction;
+    key?: string;             // Clipping identity, for entries the sync would write
+    reason?: string;          // Why a duplicate or filtered-out clipping is skipped
+}
+
+export interface RejectedClipping {
+    title: string;
+    location: string;
+    rejectedAt: string;       // ISO timestamp of when it was unticked in the sync preview
+}
+
+export interface IgnoredBook {
+    title: string;
+    author: string;
+    ignoredAt: string;        // ISO timestamp of when the book was added to the ignore list
+}
+
+export interface SyncPlan {
+    items: SyncPlanItem[];
+    orphanedKeys: string[];   // Previously synced clippings no longer in My Clippings.txt
+}
+
+export interface SyncSummary {
+    created: number;
+    updated: number;
+    unchanged: number;
+    orphaned: number;
+    failed: number;
+}
+
+export interface BackupFile {
+    path: string;             // Vault path of the card, index note or sidecar
+    content: string | null;   // Content before the sync, or null when the sync created the file
+}
+
+export interface BackupSnapshot {
+    id: string;               // Timestamp-based ID, also the snapshot's file name
+    created: string;          // ISO timestamp
+    reason: string;           // What the snapshot was taken for, e.g. "Before sync"
+    files: BackupFile[];
+    spacedRepetitionData: Record<string, CardReviewData>;
+    reviewTrash: Record<string, TrashedReview>;
+    syncedClippings: Record<string, SyncedClippingRecord>;
+}
+
+export interface BackupSummary {
+    id: string;
+    created: string;
+    reason: string;
+    changed: number;          // Files that existed and were about to be overwritten
+    added: number;            // Files that were about to be created
+}
+
+export interface BookMetadata {
+    key: string;                      // Normalised "title|||author" key
+    title: string;
+    author: string;                   // Author field as written in the clippings header
+    authors: string[];                // Normalised "First Last" names
+    firstHighlight: string | null;    // ISO date of the earliest clipping
+    lastHighlight: string | null;     // ISO date of the latest clipping
+    counts: Record<string, number>;   // Clippings by type, e.g. { highlight: 40, note: 3 }
+    locationSpan: { start: number; end: number } | null; // Lowest and highest Kindle location clipped
+    updated: string;                  // ISO timestamp of when this summary was computed
+}
+
+export interface ClippingsFileState {
+    path: string;     // Resolved path of My Clippings.txt on disk
+    size: number;     // Size in bytes at the last sync
+    modified: number; // Modification time (ms since epoch) at the last sync
+    hash: string;     // Hash of the bytes before parsedOffset, to check the file was only appended to
+    parsedOffset?: number; // Bytes parsed at the last sync; the next automatic sync resumes from here
+    parsedLines?: number;  // Line number at parsedOffset, so diagnostics of a resumed sync keep absolute lines
+}
+
+export interface DuplicateGroup {
+    kept: KindleClipping;         // Most recent clipping of the passage
+    duplicates: KindleClipping[]; // Older overlapping clippings that would be dropped
+}
+
+export interface BookmarkRecord {
+    location: string;         // Raw location text, e.g. "1234"
+    locationStart?: number;
+    page?: string;
+    added: string | null;     // ISO date the bookmark was set, when the Kindle recorded one
+}
+
+export type ParseDiagnosticReason = 'missing-header' | 'unparseable-metadata' | 'unknown-language' | 'empty-content' | 'clip-limit';
+
+export interface ParseDiagnostic {
+    reason: ParseDiagnosticReason;
+    message: string;
+    line: number;             // 1-based line of My Clippings.txt the entry starts on
+    offset: number;           // Byte offset of the entry in the file
+    raw: string;              // The entry's text as it appears in the file (long entries are cut short)
+    skipped: boolean;         // Whether the entry was left out, rather than parsed with what could be read
+    title?: string;           // Book title, when the header could be read
+    location?: string;        // Raw location text, when the metadata could be read
+}
+
+export interface ClippingsParseResult {
+    clippings: KindleClipping[];      // Highlights and notes, with notes paired to their highlights
+    bookmarks: KindleClipping[];      // Bookmark entries (type "Bookmark", no content)
+    diagnostics: ParseDiagnostic[];   // Problems found in individual entries, in file order
+    entries: number;                  // Non-empty entries in the file
+    ignored: number;                  // Entries dropped by the ignore callback
+    separators: number;               // "==========" entry separators seen
+    endOffset: number;                // Byte offset where parsing stopped
+    endLine: number;                  // Line number at endOffset
+}
+
+export interface SyncReport {
+    started: string;                  // ISO timestamp of when the sync started
+    automatic: boolean;               // Started by the clippings watcher rather than by the user
+    outcome: 'completed' | 'cancelled' | 'failed';
+    source: string | null;            // Path of the clippings file that was read
+    resumedFrom: number | null;       // Byte offset parsing resumed from, or null when the whole file was parsed
+    entries: number;
+    clippings: number;
+    bookmarks: number;
+    summary: SyncSummary | null;      // What was written, when the sync got that far
+    messages: string[];               // The lines of the closing notice
+    diagnostics: ParseDiagnostic[];   // The first diagnostics in file order, up to the number the report shows
+    diagnosticCounts: { skipped: number; partial: number }; // All diagnostics of the sync
+}
+
+export interface ExcludedClipping {
+    clipping: KindleClipping;
+    reason: string;           // Which content-processing setting excluded it
+}
+
+export interface FilterReport {
+    highlightsExcluded: number;  // Dropped because includeHighlightedText is off
+    notesExcluded: number;       // Dropped because includeBookNotes is off
+    tooShort: number;            // Dropped for being under minimumContentLength
+    excludedByPattern: number;   // Dropped by an excludePatterns match
+    notIncludedByPattern: number; // Dropped for matching none of includeOnlyPatterns
+    truncated: number;           // Kept, but cut to maximumContentLength
+    invalidPatterns: string[];   // User patterns that are not valid regular expressions
+}
+
 export interface BookGroup {
     title: string;
     author: string;
     flashcards: KindleClipping[];
     count: number;
+    metadata: BookMetadata; // Cached or computed summary of the book
 }
 
 export interface StudyStats {
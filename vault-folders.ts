@@ -0,0 +1,24 @@
+import { App, normalizePath } from 'obsidian';
+
+/**
+ * Folder handling shared by everything that writes files into the vault
+ */
+export class VaultFolders {
+    /**
+     * Create a folder and any missing parents, e.g. for book and author folders
+     */
+    static async ensureExists(app: App, folderPath: string): Promise<void> {
+        const normalized = normalizePath(folderPath);
+        if (normalized === '/') {
+            return;
+        }
+
+        let current = '';
+        for (const segment of normalized.split('/')) {
+            current = current ? `${current}/${segment}` : segment;
+            if (!app.vault.getAbstractFileByPath(current)) {
+                await app.vault.createFolder(current);
+            }
+        }
+    }
+}